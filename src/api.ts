@@ -88,6 +88,15 @@ export interface ExportResult {
   json_data: string;
 }
 
+/** Contents of the `json_data` document produced by `export_paramset`. */
+export interface ParamsetExport {
+  model?: string;
+  channel_address?: string;
+  paramset_key?: string;
+  exported_at?: string;
+  values: Record<string, unknown>;
+}
+
 export interface ImportResult {
   success: boolean;
   validated: boolean;
@@ -101,11 +110,27 @@ export interface HistoryEntry {
   entry_id: string;
   interface_id: string;
   channel_address: string;
+  /** Receiver channel of LINK paramset entries; channel_address is the sender. */
+  peer_address?: string;
   device_name: string;
   device_model: string;
   paramset_key: string;
   changes: Record<string, { old: unknown; new: unknown }>;
-  source: "manual" | "import" | "copy";
+  source: "manual" | "import" | "copy" | "revert";
+}
+
+/** Optional server-side filters for `getChangeHistory`. Empty values are ignored. */
+export interface HistoryFilters {
+  source?: HistoryEntry["source"];
+  /** ISO timestamp of the earliest entry to return. */
+  since?: string;
+  /** ISO timestamp of the latest entry to return. */
+  until?: string;
+  device_model?: string;
+  interface_id?: string;
+  parameter?: string;
+  /** Free-text search over device names. */
+  search?: string;
 }
 
 export interface HistoryResult {
@@ -137,6 +162,20 @@ export interface LinkableChannel {
   device_model: string;
 }
 
+export interface FirmwareInfo {
+  address: string;
+  interface_id: string;
+  name: string;
+  model: string;
+  firmware: string;
+  /** Firmware version offered by the CCU; empty when none is known. */
+  available_firmware: string;
+  /** Firmware update state as reported by the CCU, e.g. "UP_TO_DATE" or "READY_FOR_UPDATE". */
+  firmware_update_state: string;
+  /** Whether the CCU can start an update for this device. */
+  firmware_updatable: boolean;
+}
+
 /** Interfaces that support direct links (peerings). */
 export const LINKABLE_INTERFACES = new Set([
   "BidCos-RF",
@@ -199,7 +238,8 @@ export async function putParamset(
   channelAddress: string,
   values: Record<string, unknown>,
   paramsetKey = "MASTER",
-  validate = true
+  validate = true,
+  source?: HistoryEntry["source"]
 ): Promise<PutResult> {
   return hass.callWS<PutResult>({
     type: "homematicip_local/config/put_paramset",
@@ -209,6 +249,7 @@ export async function putParamset(
     paramset_key: paramsetKey,
     values,
     validate,
+    ...(source && { source }),
   });
 }
 
@@ -306,6 +347,100 @@ export async function sessionDiscard(
   });
 }
 
+// --- Link session commands ---
+
+export async function linkSessionOpen(
+  hass: HomeAssistant,
+  entryId: string,
+  interfaceId: string,
+  senderAddress: string,
+  receiverAddress: string
+): Promise<{ success: boolean }> {
+  return hass.callWS({
+    type: "homematicip_local/config/link_session_open",
+    entry_id: entryId,
+    interface_id: interfaceId,
+    sender_channel_address: senderAddress,
+    receiver_channel_address: receiverAddress,
+  });
+}
+
+export async function linkSessionSet(
+  hass: HomeAssistant,
+  entryId: string,
+  senderAddress: string,
+  receiverAddress: string,
+  parameter: string,
+  value: unknown
+): Promise<SessionState> {
+  return hass.callWS({
+    type: "homematicip_local/config/link_session_set",
+    entry_id: entryId,
+    sender_channel_address: senderAddress,
+    receiver_channel_address: receiverAddress,
+    parameter,
+    value,
+  });
+}
+
+export async function linkSessionUndo(
+  hass: HomeAssistant,
+  entryId: string,
+  senderAddress: string,
+  receiverAddress: string
+): Promise<SessionUndoRedoResult> {
+  return hass.callWS({
+    type: "homematicip_local/config/link_session_undo",
+    entry_id: entryId,
+    sender_channel_address: senderAddress,
+    receiver_channel_address: receiverAddress,
+  });
+}
+
+export async function linkSessionRedo(
+  hass: HomeAssistant,
+  entryId: string,
+  senderAddress: string,
+  receiverAddress: string
+): Promise<SessionUndoRedoResult> {
+  return hass.callWS({
+    type: "homematicip_local/config/link_session_redo",
+    entry_id: entryId,
+    sender_channel_address: senderAddress,
+    receiver_channel_address: receiverAddress,
+  });
+}
+
+export async function linkSessionSave(
+  hass: HomeAssistant,
+  entryId: string,
+  interfaceId: string,
+  senderAddress: string,
+  receiverAddress: string
+): Promise<SessionSaveResult> {
+  return hass.callWS({
+    type: "homematicip_local/config/link_session_save",
+    entry_id: entryId,
+    interface_id: interfaceId,
+    sender_channel_address: senderAddress,
+    receiver_channel_address: receiverAddress,
+  });
+}
+
+export async function linkSessionDiscard(
+  hass: HomeAssistant,
+  entryId: string,
+  senderAddress: string,
+  receiverAddress: string
+): Promise<{ success: boolean }> {
+  return hass.callWS({
+    type: "homematicip_local/config/link_session_discard",
+    entry_id: entryId,
+    sender_channel_address: senderAddress,
+    receiver_channel_address: receiverAddress,
+  });
+}
+
 // --- Export/Import ---
 
 export async function exportParamset(
@@ -342,19 +477,35 @@ export async function importParamset(
   });
 }
 
+/** Parse an exported paramset document. Throws when it has no values. */
+export function parseParamsetExport(jsonData: string): ParamsetExport {
+  const data = JSON.parse(jsonData) as Partial<ParamsetExport>;
+  if (!data || typeof data.values !== "object" || data.values === null) {
+    throw new Error("Export file contains no paramset values");
+  }
+  return data as ParamsetExport;
+}
+
 // --- Change history ---
 
 export async function getChangeHistory(
   hass: HomeAssistant,
   entryId: string,
   channelAddress = "",
-  limit = 50
+  limit = 50,
+  offset = 0,
+  filters: HistoryFilters = {}
 ): Promise<HistoryResult> {
+  const activeFilters = Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value)
+  );
   return hass.callWS({
     type: "homematicip_local/config/get_change_history",
     entry_id: entryId,
     channel_address: channelAddress,
     limit,
+    offset,
+    ...activeFilters,
   });
 }
 
@@ -424,7 +575,8 @@ export async function putLinkParamset(
   interfaceId: string,
   senderAddress: string,
   receiverAddress: string,
-  values: Record<string, unknown>
+  values: Record<string, unknown>,
+  source?: HistoryEntry["source"]
 ): Promise<{ success: boolean }> {
   return hass.callWS({
     type: "homematicip_local/config/put_link_paramset",
@@ -433,6 +585,7 @@ export async function putLinkParamset(
     sender_channel_address: senderAddress,
     receiver_channel_address: receiverAddress,
     values,
+    ...(source && { source }),
   });
 }
 
@@ -468,6 +621,24 @@ export async function removeLink(
   });
 }
 
+export async function setLinkInfo(
+  hass: HomeAssistant,
+  entryId: string,
+  senderAddress: string,
+  receiverAddress: string,
+  name: string,
+  description: string
+): Promise<{ success: boolean }> {
+  return hass.callWS({
+    type: "homematicip_local/config/set_link_info",
+    entry_id: entryId,
+    sender_channel_address: senderAddress,
+    receiver_channel_address: receiverAddress,
+    name,
+    description,
+  });
+}
+
 export async function getLinkableChannels(
   hass: HomeAssistant,
   entryId: string,
@@ -483,4 +654,29 @@ export async function getLinkableChannels(
     role,
   });
   return result.channels;
-}
\ No newline at end of file
+}
+
+export async function listFirmware(
+  hass: HomeAssistant,
+  entryId: string
+): Promise<FirmwareInfo[]> {
+  const result = await hass.callWS<{ devices: FirmwareInfo[] }>({
+    type: "homematicip_local/config/list_firmware",
+    entry_id: entryId,
+  });
+  return result.devices;
+}
+
+export async function updateFirmware(
+  hass: HomeAssistant,
+  entryId: string,
+  interfaceId: string,
+  deviceAddress: string
+): Promise<{ success: boolean }> {
+  return hass.callWS({
+    type: "homematicip_local/config/update_firmware",
+    entry_id: entryId,
+    interface_id: interfaceId,
+    device_address: deviceAddress,
+  });
+}
@@ -0,0 +1,320 @@
+/**
+ * Configuration backup archive: all MASTER paramsets and direct links of an
+ * installation (or a single device) in one versioned JSON document, plus the
+ * planning and applying of a selective restore.
+ */
+
+import {
+  getParamset,
+  putParamset,
+  listDeviceLinks,
+  getLinkParamset,
+  putLinkParamset,
+  addLink,
+  LINKABLE_INTERFACES,
+} from "./api";
+import { deviceAddressOf } from "./device-utils";
+import { linkKey } from "./installation-links";
+import { diffParamsets, changesToValues } from "./paramset-diff";
+import type { ParamsetChange } from "./paramset-diff";
+import type { HomeAssistant, DeviceInfo, LinkInfo } from "./types";
+
+export const BACKUP_FORMAT = "homematic-config-backup";
+export const BACKUP_VERSION = 1;
+
+export interface BackupLink {
+  sender_address: string;
+  receiver_address: string;
+  name: string;
+  description: string;
+  values: Record<string, unknown>;
+}
+
+export interface BackupDevice {
+  address: string;
+  interface_id: string;
+  model: string;
+  name: string;
+  firmware: string;
+  /** MASTER values keyed by channel address. */
+  paramsets: Record<string, Record<string, unknown>>;
+}
+
+export interface BackupError {
+  /** Device, channel or sender channel address that could not be read. */
+  address: string;
+  error: string;
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  created_at: string;
+  devices: BackupDevice[];
+  links: BackupLink[];
+  /** Parts that could not be read; the archive holds everything else. */
+  errors?: BackupError[];
+}
+
+export type ProgressCallback = (done: number, total: number) => void;
+
+export interface RestoreItem {
+  key: string;
+  kind: "paramset" | "link";
+  /** Channel address for paramset items. */
+  channelAddress?: string;
+  /** Archived link for link items. */
+  link?: BackupLink;
+  /** Whether the link still exists on the live system. */
+  linkExists?: boolean;
+  changes: ParamsetChange[];
+  error?: string;
+}
+
+export interface DeviceRestorePlan {
+  archived: BackupDevice;
+  live: DeviceInfo | null;
+  items: RestoreItem[];
+}
+
+/**
+ * Read all MASTER paramsets and direct links of the given devices. Parts that
+ * cannot be read are listed in `errors` instead of aborting the backup.
+ */
+export async function createBackup(
+  hass: HomeAssistant,
+  entryId: string,
+  devices: DeviceInfo[],
+  onProgress?: ProgressCallback
+): Promise<BackupArchive> {
+  const archive: BackupArchive = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    created_at: new Date().toISOString(),
+    devices: [],
+    links: [],
+    errors: [],
+  };
+  const errors = archive.errors!;
+  const seenLinks = new Set<string>();
+
+  for (const [index, device] of devices.entries()) {
+    onProgress?.(index, devices.length);
+    const entry: BackupDevice = {
+      address: device.address,
+      interface_id: device.interface_id,
+      model: device.model,
+      name: device.name,
+      firmware: device.firmware,
+      paramsets: {},
+    };
+    for (const channel of device.channels) {
+      if (!channel.paramset_keys.includes("MASTER")) continue;
+      try {
+        entry.paramsets[channel.address] = await getParamset(
+          hass,
+          entryId,
+          device.interface_id,
+          channel.address
+        );
+      } catch (err) {
+        errors.push({ address: channel.address, error: String(err) });
+      }
+    }
+    archive.devices.push(entry);
+
+    if (!LINKABLE_INTERFACES.has(device.interface)) continue;
+    let links: LinkInfo[];
+    try {
+      links = await listDeviceLinks(hass, entryId, device.interface_id, device.address);
+    } catch (err) {
+      errors.push({ address: device.address, error: String(err) });
+      continue;
+    }
+    for (const link of links) {
+      const key = linkKey(link.sender_address, link.receiver_address);
+      if (seenLinks.has(key)) continue;
+      seenLinks.add(key);
+      try {
+        archive.links.push({
+          sender_address: link.sender_address,
+          receiver_address: link.receiver_address,
+          name: link.name,
+          description: link.description,
+          values: await getLinkParamset(
+            hass,
+            entryId,
+            device.interface_id,
+            link.sender_address,
+            link.receiver_address
+          ),
+        });
+      } catch (err) {
+        errors.push({ address: link.sender_address, error: String(err) });
+      }
+    }
+  }
+  onProgress?.(devices.length, devices.length);
+  return archive;
+}
+
+/** Parse and validate a backup archive. Throws when the file is not a supported archive. */
+export function parseBackup(text: string): BackupArchive {
+  const data = JSON.parse(text) as Partial<BackupArchive>;
+  if (data?.format !== BACKUP_FORMAT || !Array.isArray(data.devices)) {
+    throw new Error("Not a configuration backup file");
+  }
+  if (typeof data.version !== "number" || data.version > BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version: ${data.version}`);
+  }
+  return { ...data, links: data.links ?? [] } as BackupArchive;
+}
+
+/** File name for a backup, optionally scoped to a single device. */
+export function backupFilename(deviceAddress?: string): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return deviceAddress
+    ? `homematic_backup_${deviceAddress}_${date}.json`
+    : `homematic_backup_${date}.json`;
+}
+
+/**
+ * Compare an archive with the live system. Each link is planned for the
+ * archived device that sends it, or for its receiver when the sender is not
+ * part of the archive.
+ */
+export async function planRestore(
+  hass: HomeAssistant,
+  entryId: string,
+  archive: BackupArchive,
+  liveDevices: DeviceInfo[],
+  onProgress?: ProgressCallback
+): Promise<DeviceRestorePlan[]> {
+  const archivedAddresses = new Set(archive.devices.map((d) => d.address));
+  const plans: DeviceRestorePlan[] = [];
+
+  for (const [index, archived] of archive.devices.entries()) {
+    onProgress?.(index, archive.devices.length);
+    const live = liveDevices.find((d) => d.address === archived.address) ?? null;
+    const plan: DeviceRestorePlan = { archived, live, items: [] };
+    plans.push(plan);
+    if (!live) continue;
+
+    for (const [channelAddress, values] of Object.entries(archived.paramsets)) {
+      const item: RestoreItem = {
+        key: channelAddress,
+        kind: "paramset",
+        channelAddress,
+        changes: [],
+      };
+      try {
+        const current = await getParamset(hass, entryId, live.interface_id, channelAddress);
+        item.changes = diffParamsets(current, values);
+      } catch (err) {
+        item.error = String(err);
+      }
+      if (item.changes.length > 0 || item.error) plan.items.push(item);
+    }
+
+    const ownLinks = archive.links.filter((link) => {
+      const sender = deviceAddressOf(link.sender_address);
+      const owner = archivedAddresses.has(sender)
+        ? sender
+        : deviceAddressOf(link.receiver_address);
+      return owner === archived.address;
+    });
+    if (ownLinks.length === 0 || !LINKABLE_INTERFACES.has(live.interface)) continue;
+
+    let liveLinkKeys = new Set<string>();
+    try {
+      const liveLinks = await listDeviceLinks(hass, entryId, live.interface_id, live.address);
+      liveLinkKeys = new Set(
+        liveLinks.map((l) => linkKey(l.sender_address, l.receiver_address))
+      );
+    } catch {
+      /* treat as no live links */
+    }
+    for (const link of ownLinks) {
+      const key = linkKey(link.sender_address, link.receiver_address);
+      const item: RestoreItem = {
+        key,
+        kind: "link",
+        link,
+        linkExists: liveLinkKeys.has(key),
+        changes: [],
+      };
+      try {
+        const current = item.linkExists
+          ? await getLinkParamset(
+              hass,
+              entryId,
+              live.interface_id,
+              link.sender_address,
+              link.receiver_address
+            )
+          : {};
+        item.changes = diffParamsets(current, link.values);
+      } catch (err) {
+        item.error = String(err);
+      }
+      if (!item.linkExists || item.changes.length > 0 || item.error) {
+        plan.items.push(item);
+      }
+    }
+  }
+  onProgress?.(archive.devices.length, archive.devices.length);
+  return plans;
+}
+
+/** Write a single planned restore item to the live device. */
+export async function applyRestoreItem(
+  hass: HomeAssistant,
+  entryId: string,
+  plan: DeviceRestorePlan,
+  item: RestoreItem
+): Promise<boolean> {
+  if (!plan.live) return false;
+  const interfaceId = plan.live.interface_id;
+
+  if (item.kind === "paramset" && item.channelAddress) {
+    const result = await putParamset(
+      hass,
+      entryId,
+      interfaceId,
+      item.channelAddress,
+      changesToValues(item.changes),
+      "MASTER",
+      true,
+      "import"
+    );
+    return result.success;
+  }
+
+  if (item.kind === "link" && item.link) {
+    const { sender_address, receiver_address, name, description } = item.link;
+    if (!item.linkExists) {
+      const result = await addLink(
+        hass,
+        entryId,
+        sender_address,
+        receiver_address,
+        name,
+        description
+      );
+      if (!result.success) return false;
+    }
+    if (item.changes.length > 0) {
+      const result = await putLinkParamset(
+        hass,
+        entryId,
+        interfaceId,
+        sender_address,
+        receiver_address,
+        changesToValues(item.changes)
+      );
+      return result.success;
+    }
+    return true;
+  }
+  return false;
+}
@@ -0,0 +1,210 @@
+import { LitElement, html, css } from "lit";
+import { property, state } from "lit/decorators.js";
+import { safeCustomElement } from "../safe-element";
+import { sharedStyles } from "../styles";
+import { localize } from "../localize";
+import { channelNumberOf } from "../device-utils";
+import type { ChannelRef } from "../device-utils";
+import type { HomeAssistant } from "../types";
+
+@safeCustomElement("hm-channel-picker")
+export class HmChannelPicker extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+  @property({ attribute: false }) public candidates: ChannelRef[] = [];
+  @property({ attribute: false }) public selected: Set<string> = new Set();
+
+  @state() private _searchQuery = "";
+
+  private _l(key: string, params?: Record<string, string | number>): string {
+    return localize(this.hass, key, params);
+  }
+
+  private get _filteredCandidates(): ChannelRef[] {
+    if (!this._searchQuery) return this.candidates;
+    const q = this._searchQuery.toLowerCase();
+    return this.candidates.filter(
+      ({ device, channel }) =>
+        device.name.toLowerCase().includes(q) ||
+        device.model.toLowerCase().includes(q) ||
+        channel.address.toLowerCase().includes(q)
+    );
+  }
+
+  private _emitSelection(selected: Set<string>): void {
+    this.dispatchEvent(
+      new CustomEvent("selection-changed", {
+        detail: { selected },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private _toggle(address: string): void {
+    const next = new Set(this.selected);
+    if (next.has(address)) {
+      next.delete(address);
+    } else {
+      next.add(address);
+    }
+    this._emitSelection(next);
+  }
+
+  private _selectAll(): void {
+    const next = new Set(this.selected);
+    for (const { channel } of this._filteredCandidates) {
+      next.add(channel.address);
+    }
+    this._emitSelection(next);
+  }
+
+  private _selectNone(): void {
+    this._emitSelection(new Set());
+  }
+
+  render() {
+    const candidates = this._filteredCandidates;
+
+    return html`
+      <div class="picker-toolbar">
+        <input
+          type="text"
+          .value=${this._searchQuery}
+          @input=${(e: Event) => {
+            this._searchQuery = (e.target as HTMLInputElement).value;
+          }}
+          placeholder=${this._l("channel_picker.search_placeholder")}
+        />
+        <button class="link-button" @click=${this._selectAll}>
+          ${this._l("channel_picker.select_all")}
+        </button>
+        <button class="link-button" @click=${this._selectNone}>
+          ${this._l("channel_picker.select_none")}
+        </button>
+      </div>
+
+      <div class="picker-summary">
+        ${this._l("channel_picker.selected_count", { count: this.selected.size })}
+      </div>
+
+      <div class="picker-list">
+        ${candidates.length === 0
+          ? html`<div class="empty-state">${this._l("channel_picker.no_channels")}</div>`
+          : candidates.map(({ device, channel }) => {
+              const isSelected = this.selected.has(channel.address);
+              return html`
+                <label class="picker-option ${isSelected ? "selected" : ""}">
+                  <input
+                    type="checkbox"
+                    .checked=${isSelected}
+                    @change=${() => this._toggle(channel.address)}
+                  />
+                  <div class="picker-content">
+                    <div class="picker-title">
+                      ${device.name} (${device.model})
+                    </div>
+                    <div class="picker-subtitle">
+                      ${channel.address} \u2014 ${this._l("device_detail.channel")}
+                      ${channelNumberOf(channel.address)}
+                    </div>
+                  </div>
+                </label>
+              `;
+            })}
+      </div>
+    `;
+  }
+
+  static styles = [
+    sharedStyles,
+    css`
+      .picker-toolbar {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        margin-bottom: 8px;
+      }
+
+      .picker-toolbar input {
+        flex: 1;
+        padding: 8px 12px;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 4px;
+        font-size: 14px;
+        font-family: inherit;
+        background: var(--card-background-color, #fff);
+        color: var(--primary-text-color);
+      }
+
+      .link-button {
+        background: none;
+        border: none;
+        color: var(--primary-color, #03a9f4);
+        cursor: pointer;
+        font-size: 13px;
+        font-family: inherit;
+        white-space: nowrap;
+      }
+
+      .link-button:hover {
+        text-decoration: underline;
+      }
+
+      .picker-summary {
+        font-size: 13px;
+        color: var(--secondary-text-color);
+        margin-bottom: 8px;
+      }
+
+      .picker-list {
+        display: flex;
+        flex-direction: column;
+        gap: 6px;
+        max-height: 400px;
+        overflow-y: auto;
+      }
+
+      .picker-option {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        padding: 10px 12px;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 8px;
+        cursor: pointer;
+      }
+
+      .picker-option:hover,
+      .picker-option.selected {
+        border-color: var(--primary-color, #03a9f4);
+      }
+
+      .picker-content {
+        min-width: 0;
+      }
+
+      .picker-title {
+        font-size: 14px;
+        font-weight: 500;
+      }
+
+      .picker-subtitle {
+        font-size: 12px;
+        color: var(--secondary-text-color);
+        margin-top: 2px;
+        font-family: monospace;
+      }
+
+      @media (max-width: 600px) {
+        .picker-toolbar {
+          flex-wrap: wrap;
+        }
+
+        .picker-toolbar input {
+          width: 100%;
+          flex-basis: 100%;
+        }
+      }
+    `,
+  ];
+}
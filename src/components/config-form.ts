@@ -15,6 +15,7 @@ export class HmConfigForm extends LitElement {
     string,
     string
   > = {};
+  @property({ attribute: false }) public mixedParameters: Set<string> = new Set();
 
   private _getEffectiveValue(param: FormParameter): unknown {
     if (this.pendingChanges.has(param.id)) {
@@ -44,6 +45,7 @@ export class HmConfigForm extends LitElement {
                   .parameter=${param}
                   .value=${this._getEffectiveValue(param)}
                   .modified=${this._isModified(param)}
+                  .mixed=${this.mixedParameters.has(param.id)}
                   .validationError=${this.validationErrors[param.id] ?? ""}
                   @value-changed=${this._handleValueChanged}
                 ></hm-form-parameter>
@@ -2,6 +2,7 @@ import { LitElement, html, css, nothing } from "lit";
 import { property } from "lit/decorators.js";
 import { safeCustomElement } from "../safe-element";
 import { sharedStyles } from "../styles";
+import { localize } from "../localize";
 import type { HomeAssistant, FormParameter } from "../types";
 
 @safeCustomElement("hm-form-parameter")
@@ -10,6 +11,7 @@ export class HmFormParameter extends LitElement {
   @property({ attribute: false }) public parameter!: FormParameter;
   @property() public value: unknown = null;
   @property({ type: Boolean }) public modified = false;
+  @property({ type: Boolean }) public mixed = false;
   @property() public validationError = "";
 
   private _emitChange(newValue: unknown): void {
@@ -36,6 +38,9 @@ export class HmFormParameter extends LitElement {
           ${param.label}
           ${param.unit ? html`<span class="parameter-unit">(${param.unit})</span>` : nothing}
           ${this.modified ? html`<span class="modified-dot"></span>` : nothing}
+          ${this.mixed && !this.modified
+            ? html`<span class="mixed-badge">${localize(this.hass, "config_form.mixed")}</span>`
+            : nothing}
         </div>
         <div class="parameter-control">
           ${this._renderWidget(param, readOnly)}
@@ -187,6 +192,15 @@ export class HmFormParameter extends LitElement {
         opacity: 0.7;
       }
 
+      .mixed-badge {
+        font-size: 11px;
+        padding: 1px 6px;
+        margin-left: 8px;
+        border-radius: 10px;
+        border: 1px dashed var(--secondary-text-color, #888);
+        color: var(--secondary-text-color);
+      }
+
       .toggle {
         display: inline-flex;
         align-items: center;
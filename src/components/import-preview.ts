@@ -0,0 +1,240 @@
+import { LitElement, html, css, nothing } from "lit";
+import { property, state } from "lit/decorators.js";
+import { safeCustomElement } from "../safe-element";
+import { sharedStyles } from "../styles";
+import { localize } from "../localize";
+import { findParameter, formatValue } from "../paramset-diff";
+import type { ParamsetChange } from "../paramset-diff";
+import type { HomeAssistant, FormSchema } from "../types";
+
+@safeCustomElement("hm-import-preview")
+export class HmImportPreview extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+  @property({ attribute: false }) public schema: FormSchema | null = null;
+  @property({ attribute: false }) public changes: ParamsetChange[] = [];
+  @property() public channelAddress = "";
+  @property() public importedModel = "";
+  @property() public deviceModel = "";
+  @property({ type: Boolean }) public busy = false;
+
+  @state() private _deselected: Set<string> = new Set();
+
+  updated(changedProps: Map<string, unknown>): void {
+    if (changedProps.has("changes")) {
+      this._deselected = new Set();
+    }
+  }
+
+  private _l(key: string, params?: Record<string, string | number>): string {
+    return localize(this.hass, key, params);
+  }
+
+  private get _selectedCount(): number {
+    return this.changes.length - this._deselected.size;
+  }
+
+  private _toggle(parameter: string): void {
+    const next = new Set(this._deselected);
+    if (next.has(parameter)) {
+      next.delete(parameter);
+    } else {
+      next.add(parameter);
+    }
+    this._deselected = next;
+  }
+
+  private _handleConfirm(): void {
+    this.dispatchEvent(
+      new CustomEvent("import-confirmed", {
+        detail: {
+          parameters: this.changes
+            .map((c) => c.parameter)
+            .filter((p) => !this._deselected.has(p)),
+        },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private _handleCancel(): void {
+    this.dispatchEvent(
+      new CustomEvent("import-cancelled", { bubbles: true, composed: true })
+    );
+  }
+
+  render() {
+    const modelMismatch =
+      Boolean(this.importedModel) && this.importedModel !== this.deviceModel;
+
+    return html`
+      <div class="preview-card">
+        <div class="preview-header">
+          ${this._l("import_preview.title", { channel: this.channelAddress })}
+        </div>
+        <div class="preview-content">
+          ${modelMismatch
+            ? html`
+                <div class="model-warning">
+                  ${this._l("import_preview.model_mismatch", {
+                    imported: this.importedModel,
+                    device: this.deviceModel,
+                  })}
+                </div>
+              `
+            : nothing}
+          ${this.changes.length === 0
+            ? html`<div class="empty-state">${this._l("import_preview.no_changes")}</div>`
+            : html`
+                <div class="preview-hint">${this._l("import_preview.hint")}</div>
+                ${this.changes.map((change) => {
+                  const param = findParameter(this.schema, change.parameter);
+                  return html`
+                    <label class="change-row">
+                      <input
+                        type="checkbox"
+                        .checked=${!this._deselected.has(change.parameter)}
+                        ?disabled=${this.busy}
+                        @change=${() => this._toggle(change.parameter)}
+                      />
+                      <span class="change-param">${param?.label ?? change.parameter}</span>
+                      <span class="change-values">
+                        <span class="change-old">${formatValue(param, change.old)}</span>
+                        \u2192
+                        <span class="change-new">${formatValue(param, change.new)}</span>
+                      </span>
+                    </label>
+                  `;
+                })}
+              `}
+        </div>
+        <div class="action-bar">
+          <button class="btn btn-secondary" ?disabled=${this.busy} @click=${this._handleCancel}>
+            ${this._l("common.cancel")}
+          </button>
+          <button
+            class="btn btn-primary"
+            ?disabled=${this._selectedCount === 0 || this.busy}
+            @click=${this._handleConfirm}
+          >
+            ${this._l("import_preview.import_selected", { count: this._selectedCount })}
+          </button>
+        </div>
+      </div>
+    `;
+  }
+
+  static styles = [
+    sharedStyles,
+    css`
+      .preview-card {
+        border: 1px solid var(--primary-color, #03a9f4);
+        border-radius: 8px;
+        margin-bottom: 16px;
+        overflow: hidden;
+      }
+
+      .preview-header {
+        font-size: 14px;
+        font-weight: 500;
+        padding: 12px 16px;
+        background: var(--secondary-background-color, #fafafa);
+        border-bottom: 1px solid var(--divider-color, #e0e0e0);
+      }
+
+      .preview-content {
+        padding: 8px 16px;
+      }
+
+      .preview-hint {
+        font-size: 13px;
+        color: var(--secondary-text-color);
+        margin-bottom: 8px;
+      }
+
+      .model-warning {
+        margin-bottom: 8px;
+        padding: 8px 12px;
+        border-radius: 4px;
+        font-size: 13px;
+        background: rgba(255, 152, 0, 0.1);
+        color: var(--warning-color, #ff9800);
+      }
+
+      .change-row {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 4px 0;
+        font-size: 13px;
+        cursor: pointer;
+      }
+
+      .change-param {
+        flex: 1;
+        font-weight: 500;
+      }
+
+      .change-values {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+      }
+
+      .change-old {
+        color: var(--error-color, #db4437);
+        text-decoration: line-through;
+      }
+
+      .change-new {
+        color: var(--primary-color, #03a9f4);
+        font-weight: 500;
+      }
+
+      .btn {
+        padding: 8px 20px;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 14px;
+        font-family: inherit;
+        border: 1px solid transparent;
+      }
+
+      .btn:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      .btn-primary {
+        background: var(--primary-color, #03a9f4);
+        color: #fff;
+        border-color: var(--primary-color, #03a9f4);
+      }
+
+      .btn-primary:hover:not(:disabled) {
+        opacity: 0.9;
+      }
+
+      .btn-secondary {
+        background: transparent;
+        color: var(--primary-text-color);
+        border-color: var(--divider-color, #e0e0e0);
+      }
+
+      .btn-secondary:hover:not(:disabled) {
+        background: var(--secondary-background-color, #f5f5f5);
+      }
+
+      @media (max-width: 600px) {
+        .change-row {
+          flex-wrap: wrap;
+        }
+
+        .change-values {
+          width: 100%;
+          padding-left: 26px;
+        }
+      }
+    `,
+  ];
+}
@@ -0,0 +1,222 @@
+import { LitElement, html, css, nothing } from "lit";
+import { property, state } from "lit/decorators.js";
+import { safeCustomElement } from "../safe-element";
+import { setLinkInfo } from "../api";
+import { localize } from "../localize";
+import { showToast } from "../ha-helpers";
+import type { HomeAssistant } from "../types";
+
+/** Inline display and editing of a direct link's name and description. */
+@safeCustomElement("hm-link-info-editor")
+export class HmLinkInfoEditor extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+  @property() public entryId = "";
+  @property() public senderAddress = "";
+  @property() public receiverAddress = "";
+  @property() public name = "";
+  @property() public description = "";
+
+  @state() private _editing = false;
+  @state() private _saving = false;
+  @state() private _draftName = "";
+  @state() private _draftDescription = "";
+
+  private _l(key: string, params?: Record<string, string | number>): string {
+    return localize(this.hass, key, params);
+  }
+
+  private _handleEdit(): void {
+    this._draftName = this.name;
+    this._draftDescription = this.description;
+    this._editing = true;
+  }
+
+  private async _handleSave(): Promise<void> {
+    if (this._saving) return;
+    this._saving = true;
+    const name = this._draftName.trim();
+    const description = this._draftDescription.trim();
+    try {
+      const result = await setLinkInfo(
+        this.hass,
+        this.entryId,
+        this.senderAddress,
+        this.receiverAddress,
+        name,
+        description
+      );
+      if (!result.success) {
+        // Keep the editor open so the draft can be saved again
+        showToast(this, { message: this._l("link_info.save_failed") });
+        return;
+      }
+      this._editing = false;
+      showToast(this, { message: this._l("link_info.save_success") });
+      this.dispatchEvent(
+        new CustomEvent("link-info-changed", {
+          detail: {
+            senderAddress: this.senderAddress,
+            receiverAddress: this.receiverAddress,
+            name,
+            description,
+          },
+          bubbles: true,
+          composed: true,
+        })
+      );
+    } catch {
+      showToast(this, { message: this._l("link_info.save_failed") });
+    } finally {
+      this._saving = false;
+    }
+  }
+
+  private _handleKeyDown(e: KeyboardEvent): void {
+    if (e.key === "Escape") {
+      this._editing = false;
+    } else if (e.key === "Enter" && (e.target as HTMLElement).tagName === "INPUT") {
+      this._handleSave();
+    }
+  }
+
+  render() {
+    if (!this._editing) {
+      return html`
+        <div class="info-display">
+          <div class="info-text">
+            ${this.name
+              ? html`<div class="info-name">${this.name}</div>`
+              : html`<div class="info-name placeholder">${this._l("link_info.unnamed")}</div>`}
+            ${this.description
+              ? html`<div class="info-description">${this.description}</div>`
+              : nothing}
+          </div>
+          <button class="edit-button" @click=${this._handleEdit}>
+            ${this._l("link_info.edit")}
+          </button>
+        </div>
+      `;
+    }
+
+    return html`
+      <div class="info-form" @keydown=${this._handleKeyDown}>
+        <input
+          type="text"
+          .value=${this._draftName}
+          placeholder=${this._l("link_info.name")}
+          ?disabled=${this._saving}
+          @input=${(e: Event) => (this._draftName = (e.target as HTMLInputElement).value)}
+        />
+        <textarea
+          rows="2"
+          .value=${this._draftDescription}
+          placeholder=${this._l("link_info.description")}
+          ?disabled=${this._saving}
+          @input=${(e: Event) =>
+            (this._draftDescription = (e.target as HTMLTextAreaElement).value)}
+        ></textarea>
+        <div class="form-actions">
+          <button
+            class="edit-button"
+            ?disabled=${this._saving}
+            @click=${() => (this._editing = false)}
+          >
+            ${this._l("common.cancel")}
+          </button>
+          <button class="edit-button primary" ?disabled=${this._saving} @click=${this._handleSave}>
+            ${this._saving ? this._l("channel_config.saving") : this._l("common.save")}
+          </button>
+        </div>
+      </div>
+    `;
+  }
+
+  static styles = css`
+    :host {
+      display: block;
+    }
+
+    .info-display {
+      display: flex;
+      align-items: flex-start;
+      gap: 8px;
+    }
+
+    .info-text {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .info-name {
+      font-size: 13px;
+      font-weight: 500;
+    }
+
+    .info-name.placeholder {
+      font-weight: 400;
+      font-style: italic;
+      color: var(--secondary-text-color);
+    }
+
+    .info-description {
+      font-size: 12px;
+      color: var(--secondary-text-color);
+      margin-top: 2px;
+      white-space: pre-wrap;
+    }
+
+    .info-form {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    }
+
+    .info-form input,
+    .info-form textarea {
+      width: 100%;
+      box-sizing: border-box;
+      padding: 6px 8px;
+      border: 1px solid var(--divider-color, #e0e0e0);
+      border-radius: 4px;
+      font-size: 13px;
+      font-family: inherit;
+      background: var(--card-background-color, #fff);
+      color: var(--primary-text-color);
+      resize: vertical;
+    }
+
+    .form-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 6px;
+    }
+
+    .edit-button {
+      background: none;
+      border: 1px solid var(--divider-color, #e0e0e0);
+      color: var(--primary-text-color);
+      padding: 2px 10px;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 12px;
+      font-family: inherit;
+      flex-shrink: 0;
+    }
+
+    .edit-button:hover:not(:disabled) {
+      border-color: var(--primary-color, #03a9f4);
+      color: var(--primary-color, #03a9f4);
+    }
+
+    .edit-button.primary {
+      background: var(--primary-color, #03a9f4);
+      border-color: var(--primary-color, #03a9f4);
+      color: #fff;
+    }
+
+    .edit-button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+  `;
+}
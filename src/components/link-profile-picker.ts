@@ -0,0 +1,213 @@
+import { LitElement, html, css, nothing } from "lit";
+import { property } from "lit/decorators.js";
+import { safeCustomElement } from "../safe-element";
+import { sharedStyles } from "../styles";
+import { localize } from "../localize";
+import { findParameter, formatValue } from "../paramset-diff";
+import { LINK_PROFILES, applicableProfiles, matchProfile, resolveProfile } from "../link-profiles";
+import type { LinkProfile, PressType } from "../link-profiles";
+import type { HomeAssistant, FormSchema } from "../types";
+
+const PRESS_TYPES: PressType[] = ["SHORT", "LONG"];
+
+@safeCustomElement("hm-link-profile-picker")
+export class HmLinkProfilePicker extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+  @property({ attribute: false }) public schema: FormSchema | null = null;
+  @property({ attribute: false }) public pendingChanges: Map<string, unknown> = new Map();
+  @property({ type: Boolean }) public disabled = false;
+
+  private _l(key: string, params?: Record<string, string | number>): string {
+    return localize(this.hass, key, params);
+  }
+
+  private _effective = (parameterId: string): unknown =>
+    this.pendingChanges.has(parameterId)
+      ? this.pendingChanges.get(parameterId)
+      : findParameter(this.schema, parameterId)?.current_value;
+
+  private _apply(values: Record<string, unknown> | null): void {
+    if (!values) return;
+    this.dispatchEvent(
+      new CustomEvent("profile-applied", {
+        detail: { values },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private _handleProfileChanged(press: PressType, profileId: string): void {
+    const profile = LINK_PROFILES.find((p) => p.id === profileId);
+    if (profile) this._apply(resolveProfile(this.schema, profile, press));
+  }
+
+  private _handleAdjust(press: PressType, profile: LinkProfile, value: string): void {
+    const amount = Number(value);
+    if (!profile.adjustable || value === "" || Number.isNaN(amount)) return;
+    this._apply(resolveProfile(this.schema, profile, press, { [profile.adjustable]: amount }));
+  }
+
+  render() {
+    const rows = PRESS_TYPES.filter((press) => applicableProfiles(this.schema, press).length > 0);
+    if (rows.length === 0) {
+      return html`<div class="empty-state">${this._l("link_profiles.none_applicable")}</div>`;
+    }
+    return html`
+      <div class="profile-card">
+        <div class="profile-hint">${this._l("link_profiles.hint")}</div>
+        ${rows.map((press) => this._renderRow(press))}
+      </div>
+    `;
+  }
+
+  private _renderRow(press: PressType) {
+    const profiles = applicableProfiles(this.schema, press);
+    const matched = matchProfile(this.schema, press, this._effective);
+    const values = matched ? resolveProfile(this.schema, matched, press) : null;
+    const adjustableId = matched?.adjustable && `${press}_${matched.adjustable}`;
+    const adjustableParam = adjustableId ? findParameter(this.schema, adjustableId) : undefined;
+
+    return html`
+      <div class="profile-row">
+        <label class="profile-label">
+          ${this._l(press === "SHORT" ? "link_profiles.short_press" : "link_profiles.long_press")}
+        </label>
+        <div class="profile-controls">
+          <select
+            ?disabled=${this.disabled}
+            @change=${(e: Event) =>
+              this._handleProfileChanged(press, (e.target as HTMLSelectElement).value)}
+          >
+            ${matched
+              ? nothing
+              : html`<option value="" selected>${this._l("link_profiles.custom")}</option>`}
+            ${profiles.map(
+              (profile) => html`
+                <option value=${profile.id} ?selected=${matched?.id === profile.id}>
+                  ${this._l(`link_profiles.profile_${profile.id}`)}
+                </option>
+              `
+            )}
+          </select>
+          ${matched && adjustableParam
+            ? html`
+                <label class="adjustable">
+                  ${adjustableParam.label}
+                  <input
+                    type="number"
+                    min=${adjustableParam.min ?? nothing}
+                    max=${adjustableParam.max ?? nothing}
+                    step=${adjustableParam.step ?? nothing}
+                    .value=${String(this._effective(adjustableParam.id) ?? "")}
+                    ?disabled=${this.disabled}
+                    @change=${(e: Event) =>
+                      this._handleAdjust(press, matched, (e.target as HTMLInputElement).value)}
+                  />
+                  ${adjustableParam.unit ?? ""}
+                </label>
+              `
+            : nothing}
+        </div>
+        ${values
+          ? html`
+              <div class="raw-values">
+                ${this._l("link_profiles.sets")}
+                ${Object.keys(values).map((id) => {
+                  const param = findParameter(this.schema, id);
+                  return html`
+                    <code>${id} = ${formatValue(param, this._effective(id))}</code>
+                  `;
+                })}
+              </div>
+            `
+          : nothing}
+      </div>
+    `;
+  }
+
+  static styles = [
+    sharedStyles,
+    css`
+      .profile-card {
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 8px;
+        padding: 8px 16px;
+        margin-bottom: 16px;
+      }
+
+      .profile-hint {
+        font-size: 13px;
+        color: var(--secondary-text-color);
+        margin-bottom: 8px;
+      }
+
+      .profile-row {
+        padding: 8px 0;
+        border-bottom: 1px solid var(--divider-color, #e0e0e0);
+      }
+
+      .profile-row:last-child {
+        border-bottom: none;
+      }
+
+      .profile-label {
+        display: block;
+        font-size: 14px;
+        font-weight: 500;
+        margin-bottom: 6px;
+      }
+
+      .profile-controls {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 12px;
+      }
+
+      .profile-controls select,
+      .profile-controls input {
+        padding: 6px 8px;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 4px;
+        font-size: 14px;
+        font-family: inherit;
+        background: var(--card-background-color, #fff);
+        color: var(--primary-text-color);
+      }
+
+      .profile-controls input {
+        width: 100px;
+      }
+
+      .adjustable {
+        display: inline-flex;
+        align-items: center;
+        gap: 6px;
+        font-size: 13px;
+      }
+
+      .raw-values {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 6px;
+        margin-top: 8px;
+        font-size: 12px;
+        color: var(--secondary-text-color);
+      }
+
+      .raw-values code {
+        padding: 2px 6px;
+        border-radius: 4px;
+        background: var(--secondary-background-color, #f5f5f5);
+      }
+
+      @media (max-width: 600px) {
+        .profile-controls select {
+          width: 100%;
+        }
+      }
+    `,
+  ];
+}
@@ -0,0 +1,213 @@
+import { LitElement, html, css, nothing } from "lit";
+import { property, state } from "lit/decorators.js";
+import { safeCustomElement } from "../safe-element";
+import { sharedStyles } from "../styles";
+import { localize } from "../localize";
+import { showToast } from "../ha-helpers";
+import { writableParameters } from "../paramset-diff";
+import { addPreset, compatiblePresets } from "../presets";
+import type { ConfigPreset } from "../presets";
+import type { HomeAssistant, FormSchema } from "../types";
+
+@safeCustomElement("hm-preset-picker")
+export class HmPresetPicker extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+  @property({ attribute: false }) public schema: FormSchema | null = null;
+  @property({ attribute: false }) public pendingChanges: Map<string, unknown> = new Map();
+  @property() public channelType = "";
+  @property() public model = "";
+  @property({ type: Boolean }) public disabled = false;
+
+  @state() private _presets: ConfigPreset[] = [];
+  @state() private _selectedId = "";
+  @state() private _saving = false;
+  @state() private _name = "";
+  @state() private _modelOnly = false;
+
+  updated(changedProps: Map<string, unknown>): void {
+    if (changedProps.has("channelType") || changedProps.has("model")) {
+      this._reload();
+    }
+  }
+
+  private _reload(): void {
+    this._presets = compatiblePresets(this.channelType, this.model);
+    if (!this._presets.some((p) => p.id === this._selectedId)) this._selectedId = "";
+  }
+
+  private _l(key: string, params?: Record<string, string | number>): string {
+    return localize(this.hass, key, params);
+  }
+
+  /** Current form values of all writable parameters, including pending edits. */
+  private get _effectiveValues(): Record<string, unknown> {
+    if (!this.schema) return {};
+    const writable = writableParameters(this.schema);
+    const values: Record<string, unknown> = {};
+    for (const section of this.schema.sections) {
+      for (const param of section.parameters) {
+        if (!writable.has(param.id)) continue;
+        values[param.id] = this.pendingChanges.has(param.id)
+          ? this.pendingChanges.get(param.id)
+          : param.current_value;
+      }
+    }
+    return values;
+  }
+
+  private _handleApply(): void {
+    const preset = this._presets.find((p) => p.id === this._selectedId);
+    if (!preset || !this.schema) return;
+    const writable = writableParameters(this.schema);
+    const values = Object.fromEntries(
+      Object.entries(preset.values).filter(([id]) => writable.has(id))
+    );
+    this.dispatchEvent(
+      new CustomEvent("preset-applied", {
+        detail: { values },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private _handleSave(): void {
+    const name = this._name.trim();
+    if (!name) return;
+    addPreset(name, this.channelType, this._modelOnly ? this.model : "", this._effectiveValues);
+    this._saving = false;
+    this._name = "";
+    this._modelOnly = false;
+    this._reload();
+    showToast(this, { message: this._l("presets.saved", { name }) });
+  }
+
+  render() {
+    if (this._saving) {
+      return html`
+        <div class="preset-bar">
+          <input
+            type="text"
+            .value=${this._name}
+            placeholder=${this._l("presets.name_placeholder")}
+            @input=${(e: InputEvent) => (this._name = (e.target as HTMLInputElement).value)}
+            @keydown=${(e: KeyboardEvent) => e.key === "Enter" && this._handleSave()}
+          />
+          ${this.model
+            ? html`
+                <label class="model-only">
+                  <input
+                    type="checkbox"
+                    .checked=${this._modelOnly}
+                    @change=${(e: Event) =>
+                      (this._modelOnly = (e.target as HTMLInputElement).checked)}
+                  />
+                  ${this._l("presets.model_only", { model: this.model })}
+                </label>
+              `
+            : nothing}
+          <button class="preset-button" ?disabled=${!this._name.trim()} @click=${this._handleSave}>
+            ${this._l("common.save")}
+          </button>
+          <button class="preset-button" @click=${() => (this._saving = false)}>
+            ${this._l("common.cancel")}
+          </button>
+        </div>
+      `;
+    }
+
+    return html`
+      <div class="preset-bar">
+        <select
+          ?disabled=${this.disabled || this._presets.length === 0}
+          @change=${(e: Event) => (this._selectedId = (e.target as HTMLSelectElement).value)}
+        >
+          <option value="" ?selected=${!this._selectedId}>
+            ${this._presets.length === 0
+              ? this._l("presets.none_available")
+              : this._l("presets.select")}
+          </option>
+          ${this._presets.map(
+            (preset) => html`
+              <option value=${preset.id} ?selected=${this._selectedId === preset.id}>
+                ${preset.name}${preset.model ? ` (${preset.model})` : ""}
+              </option>
+            `
+          )}
+        </select>
+        <button
+          class="preset-button"
+          ?disabled=${this.disabled || !this._selectedId}
+          @click=${this._handleApply}
+        >
+          ${this._l("presets.apply")}
+        </button>
+        <button
+          class="preset-button"
+          ?disabled=${this.disabled || !this.schema}
+          @click=${() => (this._saving = true)}
+        >
+          ${this._l("presets.save_as")}
+        </button>
+      </div>
+    `;
+  }
+
+  static styles = [
+    sharedStyles,
+    css`
+      .preset-bar {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 8px;
+        padding: 8px 16px;
+        margin-bottom: 16px;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 8px;
+      }
+
+      .preset-bar select,
+      .preset-bar input[type="text"] {
+        flex: 1;
+        min-width: 160px;
+        padding: 6px 8px;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 4px;
+        font-size: 13px;
+        font-family: inherit;
+        background: var(--card-background-color, #fff);
+        color: var(--primary-text-color);
+      }
+
+      .model-only {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        font-size: 13px;
+        cursor: pointer;
+      }
+
+      .preset-button {
+        background: none;
+        border: 1px solid var(--primary-color, #03a9f4);
+        color: var(--primary-color, #03a9f4);
+        padding: 4px 12px;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 13px;
+        font-family: inherit;
+      }
+
+      .preset-button:hover:not(:disabled) {
+        background: var(--primary-color, #03a9f4);
+        color: #fff;
+      }
+
+      .preset-button:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+    `,
+  ];
+}
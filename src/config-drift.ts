@@ -0,0 +1,74 @@
+/**
+ * Configuration drift: compares the MASTER paramsets of channels of the same
+ * type and finds the channels that deviate from the majority value.
+ */
+
+import { valuesEqual } from "./paramset-diff";
+import type { ParamsetChange } from "./paramset-diff";
+
+export interface ParameterMajority {
+  parameter: string;
+  value: unknown;
+  /** Number of channels with the majority value. */
+  count: number;
+  /** Number of channels that report the parameter at all. */
+  total: number;
+}
+
+export interface DriftResult {
+  /** Majority per parameter; only parameters with at least one outlier. */
+  majorities: ParameterMajority[];
+  /** Deviations per channel address; old is the channel's value, new the majority. */
+  outliers: Map<string, ParamsetChange[]>;
+}
+
+/** Most frequent value; ties are resolved in favour of the value seen first. */
+function majorityOf(values: unknown[]): { value: unknown; count: number } {
+  const counts: { value: unknown; count: number }[] = [];
+  for (const value of values) {
+    const entry = counts.find((c) => valuesEqual(c.value, value));
+    if (entry) {
+      entry.count++;
+    } else {
+      counts.push({ value, count: 1 });
+    }
+  }
+  return counts.reduce((best, c) => (c.count > best.count ? c : best), counts[0]);
+}
+
+/**
+ * Compute the majority value of every parameter across the given paramsets,
+ * keyed by channel address. When `parameters` is given, only those are compared.
+ */
+export function computeDrift(
+  paramsets: Map<string, Record<string, unknown>>,
+  parameters?: Set<string>
+): DriftResult {
+  const ids = new Set<string>();
+  for (const values of paramsets.values()) {
+    for (const id of Object.keys(values)) {
+      if (!parameters || parameters.has(id)) ids.add(id);
+    }
+  }
+
+  const majorities: ParameterMajority[] = [];
+  const outliers = new Map<string, ParamsetChange[]>();
+  for (const parameter of [...ids].sort()) {
+    const present = [...paramsets.entries()].filter(([, values]) => parameter in values);
+    const majority = majorityOf(present.map(([, values]) => values[parameter]));
+    // Without a strict majority there is nothing to align to
+    if (majority.count * 2 <= present.length) continue;
+
+    let deviating = false;
+    for (const [address, values] of present) {
+      if (valuesEqual(values[parameter], majority.value)) continue;
+      deviating = true;
+      if (!outliers.has(address)) outliers.set(address, []);
+      outliers.get(address)!.push({ parameter, old: values[parameter], new: majority.value });
+    }
+    if (deviating) {
+      majorities.push({ parameter, ...majority, total: present.length });
+    }
+  }
+  return { majorities, outliers };
+}
@@ -0,0 +1,262 @@
+/**
+ * Declarative desired state: a YAML or JSON document describing MASTER values
+ * and direct links per device address, compared with the live system to plan
+ * the writes, link additions and removals needed to reach it.
+ */
+
+import { isMap, isNode, isScalar, parseDocument } from "yaml";
+import {
+  getParamset,
+  putParamset,
+  listDeviceLinks,
+  getLinkParamset,
+  putLinkParamset,
+  addLink,
+  removeLink,
+  LINKABLE_INTERFACES,
+} from "./api";
+import { linkKey } from "./installation-links";
+import { diffParamsets, changesToValues } from "./paramset-diff";
+import type { ProgressCallback } from "./backup";
+import type { ParamsetChange } from "./paramset-diff";
+import type { HomeAssistant, DeviceInfo } from "./types";
+
+export const DESIRED_STATE_VERSION = 1;
+
+export interface DesiredLink {
+  sender: string;
+  receiver: string;
+  name?: string;
+  description?: string;
+  values?: Record<string, unknown>;
+}
+
+export interface DesiredDevice {
+  /** MASTER values keyed by channel address or channel number. */
+  paramsets?: Record<string, Record<string, unknown>>;
+  /**
+   * Direct links sent or received by the device. When present, live links of
+   * the device missing from the document are planned for removal.
+   */
+  links?: DesiredLink[];
+}
+
+export interface DesiredState {
+  version: number;
+  devices: Record<string, DesiredDevice>;
+}
+
+export type PlanStepKind = "paramset" | "link_add" | "link_update" | "link_remove";
+
+export interface PlanStep {
+  key: string;
+  kind: PlanStepKind;
+  /** Channel address for paramset steps. */
+  channelAddress?: string;
+  /** Sender and receiver for link steps. */
+  link?: DesiredLink;
+  changes: ParamsetChange[];
+  error?: string;
+}
+
+export interface DevicePlan {
+  address: string;
+  live: DeviceInfo | null;
+  steps: PlanStep[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse a YAML document. Plain device keys such as 00021709930176 would be
+ * read as numbers, so the device addresses are taken as written in the source.
+ */
+function parseYaml(text: string): unknown {
+  const doc = parseDocument(text);
+  if (doc.errors.length > 0) throw doc.errors[0];
+  const data = doc.toJS() as unknown;
+  const devices = doc.get("devices");
+  if (isRecord(data) && isMap(devices)) {
+    data.devices = Object.fromEntries(
+      devices.items.map((pair) => [
+        isScalar(pair.key) ? (pair.key.source ?? String(pair.key.value)) : String(pair.key),
+        isNode(pair.value) ? pair.value.toJS(doc) : pair.value,
+      ])
+    );
+  }
+  return data;
+}
+
+/** Parse and validate a desired-state document. Throws when the document is invalid. */
+export function parseDesiredState(text: string): DesiredState {
+  const data = (text.trimStart().startsWith("{") ? JSON.parse(text) : parseYaml(text)) as unknown;
+  if (!isRecord(data) || !isRecord(data.devices)) {
+    throw new Error("Missing devices section");
+  }
+  if (typeof data.version !== "number" || data.version > DESIRED_STATE_VERSION) {
+    throw new Error(`Unsupported version: ${String(data.version)}`);
+  }
+  for (const [address, device] of Object.entries(data.devices)) {
+    if (!isRecord(device)) throw new Error(`Invalid device ${address}`);
+    if (device.paramsets !== undefined) {
+      if (!isRecord(device.paramsets) || !Object.values(device.paramsets).every(isRecord)) {
+        throw new Error(`Invalid paramsets of device ${address}`);
+      }
+    }
+    if (device.links !== undefined) {
+      const valid =
+        Array.isArray(device.links) &&
+        device.links.every(
+          (link: unknown) =>
+            isRecord(link) &&
+            typeof link.sender === "string" &&
+            typeof link.receiver === "string" &&
+            (link.values === undefined || isRecord(link.values))
+        );
+      if (!valid) throw new Error(`Invalid links of device ${address}`);
+    }
+  }
+  return data as unknown as DesiredState;
+}
+
+/** Resolve a paramset key of the document to a channel address. */
+function channelAddressOf(deviceAddress: string, key: string): string {
+  return key.includes(":") ? key : `${deviceAddress}:${key}`;
+}
+
+/**
+ * Compare a desired-state document with the live system. A link listed by
+ * both of its devices is planned once, for the device that lists it first.
+ */
+export async function planDesiredState(
+  hass: HomeAssistant,
+  entryId: string,
+  state: DesiredState,
+  liveDevices: DeviceInfo[],
+  onProgress?: ProgressCallback
+): Promise<DevicePlan[]> {
+  const entries = Object.entries(state.devices);
+  const desiredLinkKeys = new Set(
+    entries.flatMap(([, device]) =>
+      (device.links ?? []).map((link) => linkKey(link.sender, link.receiver))
+    )
+  );
+  const planned = new Set<string>();
+  const plans: DevicePlan[] = [];
+
+  for (const [index, [address, device]] of entries.entries()) {
+    onProgress?.(index, entries.length);
+    const live = liveDevices.find((d) => d.address === address) ?? null;
+    const plan: DevicePlan = { address, live, steps: [] };
+    plans.push(plan);
+    if (!live) continue;
+
+    for (const [key, values] of Object.entries(device.paramsets ?? {})) {
+      const channelAddress = channelAddressOf(address, key);
+      const step: PlanStep = { key: channelAddress, kind: "paramset", channelAddress, changes: [] };
+      try {
+        const current = await getParamset(hass, entryId, live.interface_id, channelAddress);
+        step.changes = diffParamsets(current, values);
+      } catch (err) {
+        step.error = String(err);
+      }
+      if (step.changes.length > 0 || step.error) plan.steps.push(step);
+    }
+
+    if (!device.links || !LINKABLE_INTERFACES.has(live.interface)) continue;
+
+    let liveLinkKeys = new Set<string>();
+    try {
+      const liveLinks = await listDeviceLinks(hass, entryId, live.interface_id, address);
+      liveLinkKeys = new Set(liveLinks.map((l) => linkKey(l.sender_address, l.receiver_address)));
+      for (const link of liveLinks) {
+        const key = linkKey(link.sender_address, link.receiver_address);
+        if (desiredLinkKeys.has(key) || planned.has(key)) continue;
+        planned.add(key);
+        plan.steps.push({
+          key,
+          kind: "link_remove",
+          link: { sender: link.sender_address, receiver: link.receiver_address },
+          changes: [],
+        });
+      }
+    } catch (err) {
+      // Without the live links neither additions nor removals can be planned
+      plan.steps.push({
+        key: `${address}|links`,
+        kind: "link_remove",
+        changes: [],
+        error: String(err),
+      });
+      continue;
+    }
+
+    for (const link of device.links) {
+      const key = linkKey(link.sender, link.receiver);
+      if (planned.has(key)) continue;
+      planned.add(key);
+      const exists = liveLinkKeys.has(key);
+      const step: PlanStep = { key, kind: exists ? "link_update" : "link_add", link, changes: [] };
+      try {
+        const current = exists
+          ? await getLinkParamset(hass, entryId, live.interface_id, link.sender, link.receiver)
+          : {};
+        step.changes = diffParamsets(current, link.values ?? {});
+      } catch (err) {
+        step.error = String(err);
+      }
+      if (!exists || step.changes.length > 0 || step.error) plan.steps.push(step);
+    }
+  }
+  onProgress?.(entries.length, entries.length);
+  return plans;
+}
+
+/** Write a single planned step to the live system. */
+export async function applyPlanStep(
+  hass: HomeAssistant,
+  entryId: string,
+  plan: DevicePlan,
+  step: PlanStep
+): Promise<boolean> {
+  if (!plan.live || step.error) return false;
+  const interfaceId = plan.live.interface_id;
+
+  if (step.kind === "paramset" && step.channelAddress) {
+    const result = await putParamset(
+      hass,
+      entryId,
+      interfaceId,
+      step.channelAddress,
+      changesToValues(step.changes),
+      "MASTER",
+      true,
+      "import"
+    );
+    return result.success;
+  }
+
+  if (!step.link) return false;
+  const { sender, receiver, name, description } = step.link;
+  if (step.kind === "link_remove") {
+    return (await removeLink(hass, entryId, sender, receiver)).success;
+  }
+  if (step.kind === "link_add") {
+    const result = await addLink(hass, entryId, sender, receiver, name, description);
+    if (!result.success) return false;
+  }
+  if (step.changes.length > 0) {
+    const result = await putLinkParamset(
+      hass,
+      entryId,
+      interfaceId,
+      sender,
+      receiver,
+      changesToValues(step.changes)
+    );
+    return result.success;
+  }
+  return true;
+}
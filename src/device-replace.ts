@@ -0,0 +1,217 @@
+/**
+ * Device replacement: move the MASTER configuration and the direct links of
+ * a device to a new device of the same model, channel by channel.
+ */
+
+import {
+  getParamset,
+  putParamset,
+  listDeviceLinks,
+  getLinkParamset,
+  putLinkParamset,
+  addLink,
+  removeLink,
+  LINKABLE_INTERFACES,
+} from "./api";
+import { deviceAddressOf, channelNumberOf } from "./device-utils";
+import { linkKey } from "./installation-links";
+import { diffParamsets, changesToValues } from "./paramset-diff";
+import type { ProgressCallback } from "./backup";
+import type { ParamsetChange } from "./paramset-diff";
+import type { HomeAssistant, DeviceInfo, ChannelInfo, LinkInfo } from "./types";
+
+export interface ChannelMapping {
+  oldChannel: ChannelInfo;
+  newChannel: ChannelInfo | null;
+}
+
+export interface ReplaceItem {
+  key: string;
+  kind: "paramset" | "link";
+  /** Old and new channel address for paramset items. */
+  oldAddress?: string;
+  newAddress?: string;
+  /** Old link and the addresses it is recreated with. */
+  link?: LinkInfo;
+  newSender?: string;
+  newReceiver?: string;
+  /** Whether the new link already exists. */
+  linkExists?: boolean;
+  changes: ParamsetChange[];
+  error?: string;
+}
+
+/** Address of the same channel number on the new device. */
+export function mapChannelAddress(
+  address: string,
+  oldDevice: DeviceInfo,
+  newDevice: DeviceInfo
+): string {
+  return deviceAddressOf(address) === oldDevice.address
+    ? `${newDevice.address}:${channelNumberOf(address)}`
+    : address;
+}
+
+/** One-to-one mapping by channel number; channels of a different type stay unmapped. */
+export function mapChannels(oldDevice: DeviceInfo, newDevice: DeviceInfo): ChannelMapping[] {
+  return oldDevice.channels.map((oldChannel) => {
+    const address = mapChannelAddress(oldChannel.address, oldDevice, newDevice);
+    const match = newDevice.channels.find((c) => c.address === address);
+    return {
+      oldChannel,
+      newChannel: match && match.channel_type === oldChannel.channel_type ? match : null,
+    };
+  });
+}
+
+/** Read both devices and list everything that has to be migrated. */
+export async function planReplacement(
+  hass: HomeAssistant,
+  entryId: string,
+  oldDevice: DeviceInfo,
+  newDevice: DeviceInfo,
+  onProgress?: ProgressCallback
+): Promise<ReplaceItem[]> {
+  const items: ReplaceItem[] = [];
+  const mappings = mapChannels(oldDevice, newDevice).filter(
+    (m) => m.newChannel && m.oldChannel.paramset_keys.includes("MASTER")
+  );
+  const linkable = LINKABLE_INTERFACES.has(oldDevice.interface);
+  const total = mappings.length + (linkable ? 1 : 0);
+
+  for (const [index, { oldChannel, newChannel }] of mappings.entries()) {
+    onProgress?.(index, total);
+    const item: ReplaceItem = {
+      key: oldChannel.address,
+      kind: "paramset",
+      oldAddress: oldChannel.address,
+      newAddress: newChannel!.address,
+      changes: [],
+    };
+    try {
+      const [oldValues, newValues] = await Promise.all([
+        getParamset(hass, entryId, oldDevice.interface_id, oldChannel.address),
+        getParamset(hass, entryId, newDevice.interface_id, newChannel!.address),
+      ]);
+      item.changes = diffParamsets(newValues, oldValues);
+    } catch (err) {
+      item.error = String(err);
+    }
+    if (item.changes.length > 0 || item.error) items.push(item);
+  }
+
+  if (linkable) {
+    onProgress?.(mappings.length, total);
+    let oldLinks: LinkInfo[];
+    let newLinks: LinkInfo[];
+    try {
+      [oldLinks, newLinks] = await Promise.all([
+        listDeviceLinks(hass, entryId, oldDevice.interface_id, oldDevice.address),
+        listDeviceLinks(hass, entryId, newDevice.interface_id, newDevice.address),
+      ]);
+    } catch (err) {
+      // Keep the paramset items; the links are reported as one unreadable item
+      items.push({
+        key: `${oldDevice.address}|links`,
+        kind: "link",
+        changes: [],
+        error: String(err),
+      });
+      onProgress?.(total, total);
+      return items;
+    }
+    const existing = new Set(newLinks.map((l) => linkKey(l.sender_address, l.receiver_address)));
+
+    for (const link of oldLinks) {
+      const newSender = mapChannelAddress(link.sender_address, oldDevice, newDevice);
+      const newReceiver = mapChannelAddress(link.receiver_address, oldDevice, newDevice);
+      const item: ReplaceItem = {
+        key: linkKey(link.sender_address, link.receiver_address),
+        kind: "link",
+        link,
+        newSender,
+        newReceiver,
+        linkExists: existing.has(linkKey(newSender, newReceiver)),
+        changes: [],
+      };
+      try {
+        const values = await getLinkParamset(
+          hass,
+          entryId,
+          oldDevice.interface_id,
+          link.sender_address,
+          link.receiver_address
+        );
+        const current = item.linkExists
+          ? await getLinkParamset(hass, entryId, newDevice.interface_id, newSender, newReceiver)
+          : {};
+        item.changes = diffParamsets(current, values);
+      } catch (err) {
+        item.error = String(err);
+      }
+      items.push(item);
+    }
+  }
+  onProgress?.(total, total);
+  return items;
+}
+
+/** Write one planned item to the new device; optionally remove the old link afterwards. */
+export async function applyReplaceItem(
+  hass: HomeAssistant,
+  entryId: string,
+  newDevice: DeviceInfo,
+  item: ReplaceItem,
+  removeOldLink = false
+): Promise<boolean> {
+  if (item.kind === "paramset" && item.newAddress) {
+    const result = await putParamset(
+      hass,
+      entryId,
+      newDevice.interface_id,
+      item.newAddress,
+      changesToValues(item.changes),
+      "MASTER",
+      true,
+      "copy"
+    );
+    return result.success;
+  }
+
+  if (item.kind === "link" && item.link && item.newSender && item.newReceiver) {
+    const { name, description } = item.link;
+    if (!item.linkExists) {
+      const result = await addLink(
+        hass,
+        entryId,
+        item.newSender,
+        item.newReceiver,
+        name,
+        description
+      );
+      if (!result.success) return false;
+    }
+    if (item.changes.length > 0) {
+      const result = await putLinkParamset(
+        hass,
+        entryId,
+        newDevice.interface_id,
+        item.newSender,
+        item.newReceiver,
+        changesToValues(item.changes)
+      );
+      if (!result.success) return false;
+    }
+    if (removeOldLink) {
+      const result = await removeLink(
+        hass,
+        entryId,
+        item.link.sender_address,
+        item.link.receiver_address
+      );
+      return result.success;
+    }
+    return true;
+  }
+  return false;
+}
@@ -0,0 +1,40 @@
+/**
+ * Helpers for working with Homematic device and channel addresses.
+ */
+
+import type { DeviceInfo, ChannelInfo } from "./types";
+
+export interface ChannelRef {
+  device: DeviceInfo;
+  channel: ChannelInfo;
+}
+
+/** Device address part of a channel address ("ABC123:1" => "ABC123"). */
+export function deviceAddressOf(channelAddress: string): string {
+  return channelAddress.split(":")[0];
+}
+
+/** Channel number part of a channel address ("ABC123:1" => "1"). */
+export function channelNumberOf(channelAddress: string): string {
+  return channelAddress.split(":").pop() ?? "";
+}
+
+/** All channels of the given type that expose the given paramset, across all devices. */
+export function findChannelsByType(
+  devices: DeviceInfo[],
+  channelType: string,
+  paramsetKey = "MASTER"
+): ChannelRef[] {
+  const refs: ChannelRef[] = [];
+  for (const device of devices) {
+    for (const channel of device.channels) {
+      if (
+        channel.channel_type === channelType &&
+        channel.paramset_keys.includes(paramsetKey)
+      ) {
+        refs.push({ device, channel });
+      }
+    }
+  }
+  return refs;
+}
@@ -0,0 +1,50 @@
+/**
+ * Helpers for downloading generated files and reading files picked by the user.
+ */
+
+/** Offer the given content as a file download. */
+export function downloadFile(
+  filename: string,
+  content: string,
+  mimeType = "application/json"
+): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Let the user pick a file and return its text content.
+ * Resolves to null when the picker is dismissed without a file.
+ */
+export function pickTextFile(accept = ".json"): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = accept;
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      file.text().then(resolve, reject);
+    };
+    input.oncancel = () => resolve(null);
+    input.click();
+  });
+}
+
+/** Serialize rows as RFC 4180 CSV. Objects are written as JSON, null and undefined as empty cells. */
+export function toCsv(rows: unknown[][]): string {
+  const cell = (value: unknown): string => {
+    if (value === null || value === undefined) return "";
+    const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map((row) => row.map(cell).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,73 @@
+/**
+ * Firmware updates: classifies the CCU update states and tracks running
+ * updates until the device reports the new firmware version.
+ */
+
+import type { FirmwareInfo } from "./types";
+
+/** Interval for re-reading the firmware states while updates are running. */
+export const FIRMWARE_POLL_INTERVAL = 10_000;
+
+/** Updates that do not report a new version within this time are marked as failed. */
+export const FIRMWARE_UPDATE_TIMEOUT = 30 * 60_000;
+
+export type FirmwareStatus = "up_to_date" | "available" | "updating" | "unknown";
+
+const AVAILABLE_STATES = new Set([
+  "NEW_FIRMWARE_AVAILABLE",
+  "LIVE_NEW_FIRMWARE_AVAILABLE",
+  "READY_FOR_UPDATE",
+]);
+
+const UPDATING_STATES = new Set([
+  "DELIVER_FIRMWARE_IMAGE",
+  "LIVE_DELIVER_FIRMWARE_IMAGE",
+  "DO_UPDATE_PENDING",
+  "PERFORMING_UPDATE",
+]);
+
+export function firmwareStatus(info: FirmwareInfo): FirmwareStatus {
+  const state = info.firmware_update_state;
+  if (UPDATING_STATES.has(state)) return "updating";
+  if (AVAILABLE_STATES.has(state)) return "available";
+  if (info.available_firmware && info.available_firmware !== info.firmware) return "available";
+  if (state === "UP_TO_DATE" || state === "LIVE_UP_TO_DATE") return "up_to_date";
+  return "unknown";
+}
+
+/** Devices that can be updated right now. */
+export function canUpdate(info: FirmwareInfo): boolean {
+  return info.firmware_updatable && firmwareStatus(info) === "available";
+}
+
+/** Devices grouped by model, models and devices sorted by name. */
+export function groupByModel(devices: FirmwareInfo[]): Map<string, FirmwareInfo[]> {
+  const groups = new Map<string, FirmwareInfo[]>();
+  const sorted = [...devices].sort(
+    (a, b) => a.model.localeCompare(b.model) || a.name.localeCompare(b.name)
+  );
+  for (const device of sorted) {
+    if (!groups.has(device.model)) groups.set(device.model, []);
+    groups.get(device.model)!.push(device);
+  }
+  return groups;
+}
+
+export interface RunningUpdate {
+  /** Firmware version when the update was started. */
+  fromVersion: string;
+  startedAt: number;
+}
+
+export type UpdateOutcome = "running" | "done" | "failed";
+
+/** Evaluate a running update against the latest firmware info of the device. */
+export function updateOutcome(
+  update: RunningUpdate,
+  info: FirmwareInfo | undefined,
+  now: number
+): UpdateOutcome {
+  if (info && info.firmware !== update.fromVersion) return "done";
+  if (now - update.startedAt > FIRMWARE_UPDATE_TIMEOUT) return "failed";
+  return "running";
+}
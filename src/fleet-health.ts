@@ -0,0 +1,94 @@
+/**
+ * Fleet health: aggregates the maintenance data of all devices into problem
+ * lists and an RSSI distribution per interface.
+ */
+
+import type { DeviceInfo } from "./types";
+
+export type HealthCategory = "unreach" | "low_bat" | "config_pending" | "dutycycle";
+
+export const HEALTH_CATEGORIES: HealthCategory[] = [
+  "unreach",
+  "low_bat",
+  "config_pending",
+  "dutycycle",
+];
+
+export type RssiBucket = "good" | "fair" | "weak" | "critical";
+
+export const RSSI_BUCKETS: RssiBucket[] = ["good", "fair", "weak", "critical"];
+
+/** Devices at or below this RSSI (dBm) are highlighted as weak. */
+export const WEAK_RSSI = -80;
+
+export interface RssiDistribution {
+  interface: string;
+  buckets: Record<RssiBucket, number>;
+  /** Devices without a usable RSSI value. */
+  unknown: number;
+  /** Weak and critical devices, weakest first. */
+  weak: DeviceInfo[];
+}
+
+/** RSSI value in dBm, or null for missing values and the CCU's 0 or positive placeholders. */
+export function usableRssi(rssi: number | undefined): number | null {
+  return typeof rssi === "number" && rssi < 0 ? rssi : null;
+}
+
+/**
+ * Weaker of the RSSI received by the device and by its peer (the CCU), or
+ * null when neither is usable. A link is only as good as its weaker direction.
+ */
+export function deviceRssi(device: DeviceInfo): number | null {
+  const values = [
+    usableRssi(device.maintenance?.rssi_device),
+    usableRssi(device.maintenance?.rssi_peer),
+  ].filter((rssi): rssi is number => rssi !== null);
+  return values.length > 0 ? Math.min(...values) : null;
+}
+
+export function rssiBucket(rssi: number): RssiBucket {
+  if (rssi > -65) return "good";
+  if (rssi > WEAK_RSSI) return "fair";
+  if (rssi > -90) return "weak";
+  return "critical";
+}
+
+/** Devices flagged with the given maintenance problem, sorted by name. */
+export function devicesWithProblem(devices: DeviceInfo[], category: HealthCategory): DeviceInfo[] {
+  return devices
+    .filter((d) => d.maintenance?.[category] === true)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** RSSI distribution of all devices reporting RSSI, grouped by interface. */
+export function rssiDistribution(devices: DeviceInfo[]): RssiDistribution[] {
+  const byInterface = new Map<string, RssiDistribution>();
+  for (const device of devices) {
+    const m = device.maintenance;
+    if (m?.rssi_device === undefined && m?.rssi_peer === undefined) continue;
+    let entry = byInterface.get(device.interface);
+    if (!entry) {
+      entry = {
+        interface: device.interface,
+        buckets: { good: 0, fair: 0, weak: 0, critical: 0 },
+        unknown: 0,
+        weak: [],
+      };
+      byInterface.set(device.interface, entry);
+    }
+    const rssi = deviceRssi(device);
+    if (rssi === null) {
+      entry.unknown++;
+      continue;
+    }
+    entry.buckets[rssiBucket(rssi)]++;
+    if (rssi <= WEAK_RSSI) entry.weak.push(device);
+  }
+
+  const result = [...byInterface.values()].sort((a, b) => a.interface.localeCompare(b.interface));
+  for (const entry of result) {
+    entry.weak.sort((a, b) => deviceRssi(a)! - deviceRssi(b)!);
+  }
+  return result;
+}
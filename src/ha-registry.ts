@@ -0,0 +1,114 @@
+/**
+ * Home Assistant registry lookups: resolves Homematic device and channel
+ * addresses to the HA device and entity registry entries and their areas.
+ */
+
+import type { HomeAssistant } from "./types";
+
+const INTEGRATION_DOMAIN = "homematicip_local";
+
+interface RegistryDevice {
+  id: string;
+  area_id: string | null;
+  identifiers: [string, string][];
+}
+
+interface RegistryEntity {
+  entity_id: string;
+  unique_id: string;
+  platform: string;
+  device_id: string | null;
+  name: string | null;
+  original_name: string | null;
+  disabled_by: string | null;
+}
+
+export interface HaArea {
+  area_id: string;
+  name: string;
+}
+
+export interface HaDeviceRef {
+  /** HA device registry ID. */
+  deviceId: string;
+  area: HaArea | null;
+}
+
+export interface HaEntityRef {
+  entityId: string;
+  name: string;
+  disabled: boolean;
+}
+
+/** Homematic address from an integration identifier ("ADDRESS" or "ADDRESS@interface"). */
+function addressOfIdentifier(identifier: string): string {
+  const separator = identifier.indexOf("@");
+  return separator === -1 ? identifier : identifier.slice(0, separator);
+}
+
+export async function listAreas(hass: HomeAssistant): Promise<HaArea[]> {
+  const areas = await hass.callWS<HaArea[]>({ type: "config/area_registry/list" });
+  return [...areas].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** HA device registry entries of the integration, keyed by Homematic device address. */
+export async function resolveDeviceRefs(
+  hass: HomeAssistant
+): Promise<Map<string, HaDeviceRef>> {
+  const [devices, areas] = await Promise.all([
+    hass.callWS<RegistryDevice[]>({ type: "config/device_registry/list" }),
+    listAreas(hass),
+  ]);
+  const areasById = new Map(areas.map((a) => [a.area_id, a]));
+
+  const result = new Map<string, HaDeviceRef>();
+  for (const device of devices) {
+    for (const [domain, identifier] of device.identifiers) {
+      if (domain !== INTEGRATION_DOMAIN) continue;
+      result.set(addressOfIdentifier(identifier), {
+        deviceId: device.id,
+        area: (device.area_id && areasById.get(device.area_id)) || null,
+      });
+    }
+  }
+  return result;
+}
+
+/** Unique IDs of channel entities contain the lowercased channel address with "_" as separator. */
+function channelUniqueIdPart(channelAddress: string): string {
+  return `${channelAddress.toLowerCase().replace(":", "_")}_`;
+}
+
+/**
+ * HA entities created for the given channels, keyed by channel address.
+ * When the HA device ID is known, only entities of that device are considered.
+ */
+export async function resolveChannelEntities(
+  hass: HomeAssistant,
+  channelAddresses: string[],
+  deviceId?: string
+): Promise<Map<string, HaEntityRef[]>> {
+  const entities = await hass.callWS<RegistryEntity[]>({ type: "config/entity_registry/list" });
+  const candidates = entities.filter(
+    (e) => e.platform === INTEGRATION_DOMAIN && (!deviceId || e.device_id === deviceId)
+  );
+
+  const result = new Map<string, HaEntityRef[]>();
+  for (const address of channelAddresses) {
+    const part = channelUniqueIdPart(address);
+    const refs = candidates
+      .filter((e) => e.unique_id.toLowerCase().includes(part))
+      .map((e) => ({
+        entityId: e.entity_id,
+        name:
+          hass.states[e.entity_id]?.attributes.friendly_name ??
+          e.name ??
+          e.original_name ??
+          e.entity_id,
+        disabled: e.disabled_by !== null,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    if (refs.length > 0) result.set(address, refs);
+  }
+  return result;
+}
@@ -8,6 +8,19 @@ import "./views/change-history";
 import "./views/device-links";
 import "./views/link-config";
 import "./views/add-link";
+import "./views/copy-config";
+import "./views/bulk-edit";
+import "./views/config-backup";
+import "./views/link-topology";
+import "./views/link-health";
+import "./views/device-replace";
+import "./views/fleet-health";
+import "./views/firmware";
+import "./views/param-search";
+import "./views/config-drift";
+import "./views/presets";
+import "./views/desired-state";
+import "./views/write-queue";
 import type { HomeAssistant, PanelInfo, EntryInfo } from "./types";
 
 type PanelView =
@@ -17,7 +30,36 @@ type PanelView =
   | "change-history"
   | "device-links"
   | "link-config"
-  | "add-link";
+  | "add-link"
+  | "copy-config"
+  | "bulk-edit"
+  | "config-backup"
+  | "link-topology"
+  | "link-health"
+  | "device-replace"
+  | "fleet-health"
+  | "firmware"
+  | "param-search"
+  | "config-drift"
+  | "presets"
+  | "desired-state"
+  | "write-queue";
+
+/** Hash parameters used for navigation; all others are view filters. */
+const NAVIGATION_HASH_KEYS = new Set([
+  "view",
+  "entry",
+  "device",
+  "interface",
+  "channel",
+  "channel_type",
+  "paramset",
+  "sender",
+  "receiver",
+]);
+
+/** Stable empty filter object, so views do not refetch on every panel render. */
+const NO_FILTERS: Record<string, string> = {};
 
 @safeCustomElement("homematic-config")
 export class HomematicConfigPanel extends LitElement {
@@ -36,6 +78,12 @@ export class HomematicConfigPanel extends LitElement {
   @state() private _selectedDeviceName = "";
   @state() private _selectedSenderAddress = "";
   @state() private _selectedReceiverAddress = "";
+  /** View that opened link-config, so "back" returns there. */
+  @state() private _linkConfigOrigin: "device-links" | "link-topology" | "link-health" =
+    "device-links";
+  /** View that opened channel-config, so "back" returns there. */
+  @state() private _channelConfigOrigin: "device-detail" | "param-search" = "device-detail";
+  @state() private _viewFilters: Partial<Record<PanelView, Record<string, string>>> = {};
 
   connectedCallback(): void {
     super.connectedCallback();
@@ -69,6 +117,12 @@ export class HomematicConfigPanel extends LitElement {
 
     if (entryId) this._entryId = entryId;
     if (view) {
+      const filters: Record<string, string> = {};
+      for (const [key, value] of params.entries()) {
+        if (!NAVIGATION_HASH_KEYS.has(key)) filters[key] = value;
+      }
+      this._viewFilters = { ...this._viewFilters, [view]: filters };
+
       this._navigateTo(view, {
         device,
         interfaceId,
@@ -90,7 +144,7 @@ export class HomematicConfigPanel extends LitElement {
       if (this._selectedDevice) params.set("device", this._selectedDevice);
       if (this._selectedInterfaceId) params.set("interface", this._selectedInterfaceId);
     }
-    if (this._view === "channel-config") {
+    if (this._view === "channel-config" || this._view === "copy-config") {
       if (this._selectedChannel) params.set("channel", this._selectedChannel);
       if (this._selectedChannelType) params.set("channel_type", this._selectedChannelType);
       if (this._selectedParamsetKey !== "MASTER") {
@@ -101,10 +155,17 @@ export class HomematicConfigPanel extends LitElement {
       if (this._selectedSenderAddress) params.set("sender", this._selectedSenderAddress);
       if (this._selectedReceiverAddress) params.set("receiver", this._selectedReceiverAddress);
     }
+    if (this._view === "bulk-edit") {
+      if (this._selectedChannelType) params.set("channel_type", this._selectedChannelType);
+    }
     if (this._view === "add-link") {
       if (this._selectedChannel) params.set("channel", this._selectedChannel);
     }
 
+    for (const [key, value] of Object.entries(this._viewFilters[this._view] ?? {})) {
+      if (value) params.set(key, value);
+    }
+
     const hash = params.toString();
     window.history.replaceState(null, "", `#${hash}`);
   }
@@ -150,6 +211,11 @@ export class HomematicConfigPanel extends LitElement {
     this._updateUrlHash();
   }
 
+  private _setViewFilters(view: PanelView, filters: Record<string, string>): void {
+    this._viewFilters = { ...this._viewFilters, [view]: filters };
+    this._updateUrlHash();
+  }
+
   render() {
     switch (this._view) {
       case "device-list":
@@ -158,12 +224,37 @@ export class HomematicConfigPanel extends LitElement {
             .hass=${this.hass}
             .entryId=${this._entryId}
             .entries=${this._entries}
+            .filters=${this._viewFilters["device-list"] ?? NO_FILTERS}
+            @filters-changed=${(e: CustomEvent) =>
+              this._setViewFilters("device-list", e.detail.filters)}
             @entry-changed=${(e: CustomEvent) => {
               this._entryId = e.detail.entryId;
               this._updateUrlHash();
             }}
             @device-selected=${(e: CustomEvent) =>
               this._navigateTo("device-detail", e.detail)}
+            @bulk-edit=${() =>
+              this._navigateTo("bulk-edit", { channelType: "" })}
+            @show-backup=${() =>
+              this._navigateTo("config-backup", { device: "", interfaceId: "" })}
+            @show-topology=${() =>
+              this._navigateTo("link-topology", { device: "", interfaceId: "" })}
+            @show-link-health=${() =>
+              this._navigateTo("link-health", { device: "", interfaceId: "" })}
+            @show-fleet-health=${() =>
+              this._navigateTo("fleet-health", { device: "", interfaceId: "" })}
+            @show-firmware=${() =>
+              this._navigateTo("firmware", { device: "", interfaceId: "" })}
+            @show-param-search=${() =>
+              this._navigateTo("param-search", { device: "", interfaceId: "" })}
+            @show-config-drift=${() =>
+              this._navigateTo("config-drift", { device: "", interfaceId: "" })}
+            @show-presets=${() =>
+              this._navigateTo("presets", { device: "", interfaceId: "" })}
+            @show-desired-state=${() =>
+              this._navigateTo("desired-state", { device: "", interfaceId: "" })}
+            @show-write-queue=${() =>
+              this._navigateTo("write-queue", { device: "", interfaceId: "" })}
           ></hm-device-list>
         `;
       case "device-detail":
@@ -173,12 +264,20 @@ export class HomematicConfigPanel extends LitElement {
             .entryId=${this._entryId}
             .interfaceId=${this._selectedInterfaceId}
             .deviceAddress=${this._selectedDevice}
-            @channel-selected=${(e: CustomEvent) =>
-              this._navigateTo("channel-config", e.detail)}
+            @channel-selected=${(e: CustomEvent) => {
+              this._channelConfigOrigin = "device-detail";
+              this._navigateTo("channel-config", e.detail);
+            }}
             @show-history=${(e: CustomEvent) =>
               this._navigateTo("change-history", e.detail)}
             @show-links=${(e: CustomEvent) =>
               this._navigateTo("device-links", e.detail)}
+            @copy-config=${(e: CustomEvent) =>
+              this._navigateTo("copy-config", e.detail)}
+            @show-backup=${(e: CustomEvent) =>
+              this._navigateTo("config-backup", e.detail)}
+            @replace-device=${(e: CustomEvent) =>
+              this._navigateTo("device-replace", e.detail)}
             @back=${() => this._navigateTo("device-list")}
           ></hm-device-detail>
         `;
@@ -193,10 +292,12 @@ export class HomematicConfigPanel extends LitElement {
             .paramsetKey=${this._selectedParamsetKey}
             .deviceName=${this._selectedDeviceName}
             @back=${() =>
-              this._navigateTo("device-detail", {
-                device: this._selectedDevice,
-                interfaceId: this._selectedInterfaceId,
-              })}
+              this._channelConfigOrigin === "param-search"
+                ? this._navigateTo("param-search", { device: "", interfaceId: "" })
+                : this._navigateTo("device-detail", {
+                    device: this._selectedDevice,
+                    interfaceId: this._selectedInterfaceId,
+                  })}
           ></hm-channel-config>
         `;
       case "change-history":
@@ -205,6 +306,9 @@ export class HomematicConfigPanel extends LitElement {
             .hass=${this.hass}
             .entryId=${this._entryId}
             .filterDevice=${this._selectedDevice}
+            .filters=${this._viewFilters["change-history"] ?? NO_FILTERS}
+            @filters-changed=${(e: CustomEvent) =>
+              this._setViewFilters("change-history", e.detail.filters)}
             @back=${() =>
               this._navigateTo(
                 this._selectedDevice ? "device-detail" : "device-list",
@@ -222,8 +326,10 @@ export class HomematicConfigPanel extends LitElement {
             .interfaceId=${this._selectedInterfaceId}
             .deviceAddress=${this._selectedDevice}
             .deviceName=${this._selectedDeviceName}
-            @configure-link=${(e: CustomEvent) =>
-              this._navigateTo("link-config", e.detail)}
+            @configure-link=${(e: CustomEvent) => {
+              this._linkConfigOrigin = "device-links";
+              this._navigateTo("link-config", e.detail);
+            }}
             @add-link=${(e: CustomEvent) =>
               this._navigateTo("add-link", e.detail)}
             @back=${() =>
@@ -242,10 +348,12 @@ export class HomematicConfigPanel extends LitElement {
             .senderAddress=${this._selectedSenderAddress}
             .receiverAddress=${this._selectedReceiverAddress}
             @back=${() =>
-              this._navigateTo("device-links", {
-                device: this._selectedDevice,
-                interfaceId: this._selectedInterfaceId,
-              })}
+              this._linkConfigOrigin !== "device-links"
+                ? this._navigateTo(this._linkConfigOrigin, { device: "", interfaceId: "" })
+                : this._navigateTo("device-links", {
+                    device: this._selectedDevice,
+                    interfaceId: this._selectedInterfaceId,
+                  })}
           ></hm-link-config>
         `;
       case "add-link":
@@ -267,6 +375,157 @@ export class HomematicConfigPanel extends LitElement {
               })}
           ></hm-add-link>
         `;
+      case "copy-config":
+        return html`
+          <hm-copy-config
+            .hass=${this.hass}
+            .entryId=${this._entryId}
+            .interfaceId=${this._selectedInterfaceId}
+            .channelAddress=${this._selectedChannel}
+            .channelType=${this._selectedChannelType}
+            .deviceName=${this._selectedDeviceName}
+            @back=${() =>
+              this._navigateTo("device-detail", {
+                device: this._selectedDevice,
+                interfaceId: this._selectedInterfaceId,
+              })}
+          ></hm-copy-config>
+        `;
+      case "bulk-edit":
+        return html`
+          <hm-bulk-edit
+            .hass=${this.hass}
+            .entryId=${this._entryId}
+            .channelType=${this._selectedChannelType}
+            @back=${() => this._navigateTo("device-list")}
+          ></hm-bulk-edit>
+        `;
+      case "config-backup":
+        return html`
+          <hm-config-backup
+            .hass=${this.hass}
+            .entryId=${this._entryId}
+            .deviceAddress=${this._selectedDevice}
+            @back=${() =>
+              this._navigateTo(
+                this._selectedDevice ? "device-detail" : "device-list",
+                this._selectedDevice
+                  ? { device: this._selectedDevice, interfaceId: this._selectedInterfaceId }
+                  : undefined
+              )}
+          ></hm-config-backup>
+        `;
+      case "link-topology":
+        return html`
+          <hm-link-topology
+            .hass=${this.hass}
+            .entryId=${this._entryId}
+            .filters=${this._viewFilters["link-topology"] ?? NO_FILTERS}
+            @filters-changed=${(e: CustomEvent) =>
+              this._setViewFilters("link-topology", e.detail.filters)}
+            @configure-link=${(e: CustomEvent) => {
+              this._linkConfigOrigin = "link-topology";
+              this._navigateTo("link-config", e.detail);
+            }}
+            @device-selected=${(e: CustomEvent) =>
+              this._navigateTo("device-detail", e.detail)}
+            @back=${() => this._navigateTo("device-list")}
+          ></hm-link-topology>
+        `;
+      case "link-health":
+        return html`
+          <hm-link-health
+            .hass=${this.hass}
+            .entryId=${this._entryId}
+            @configure-link=${(e: CustomEvent) => {
+              this._linkConfigOrigin = "link-health";
+              this._navigateTo("link-config", e.detail);
+            }}
+            @back=${() => this._navigateTo("device-list")}
+          ></hm-link-health>
+        `;
+      case "device-replace":
+        return html`
+          <hm-device-replace
+            .hass=${this.hass}
+            .entryId=${this._entryId}
+            .deviceAddress=${this._selectedDevice}
+            @device-selected=${(e: CustomEvent) =>
+              this._navigateTo("device-detail", e.detail)}
+            @back=${() =>
+              this._navigateTo("device-detail", {
+                device: this._selectedDevice,
+                interfaceId: this._selectedInterfaceId,
+              })}
+          ></hm-device-replace>
+        `;
+      case "fleet-health":
+        return html`
+          <hm-fleet-health
+            .hass=${this.hass}
+            .entryId=${this._entryId}
+            @device-selected=${(e: CustomEvent) =>
+              this._navigateTo("device-detail", e.detail)}
+            @back=${() => this._navigateTo("device-list")}
+          ></hm-fleet-health>
+        `;
+      case "firmware":
+        return html`
+          <hm-firmware
+            .hass=${this.hass}
+            .entryId=${this._entryId}
+            @back=${() => this._navigateTo("device-list")}
+          ></hm-firmware>
+        `;
+      case "param-search":
+        return html`
+          <hm-param-search
+            .hass=${this.hass}
+            .entryId=${this._entryId}
+            .filters=${this._viewFilters["param-search"] ?? NO_FILTERS}
+            @filters-changed=${(e: CustomEvent) =>
+              this._setViewFilters("param-search", e.detail.filters)}
+            @channel-selected=${(e: CustomEvent) => {
+              this._channelConfigOrigin = "param-search";
+              this._navigateTo("channel-config", e.detail);
+            }}
+            @back=${() => this._navigateTo("device-list")}
+          ></hm-param-search>
+        `;
+      case "config-drift":
+        return html`
+          <hm-config-drift
+            .hass=${this.hass}
+            .entryId=${this._entryId}
+            .filters=${this._viewFilters["config-drift"] ?? NO_FILTERS}
+            @filters-changed=${(e: CustomEvent) =>
+              this._setViewFilters("config-drift", e.detail.filters)}
+            @back=${() => this._navigateTo("device-list")}
+          ></hm-config-drift>
+        `;
+      case "presets":
+        return html`
+          <hm-presets
+            .hass=${this.hass}
+            @back=${() => this._navigateTo("device-list")}
+          ></hm-presets>
+        `;
+      case "desired-state":
+        return html`
+          <hm-desired-state
+            .hass=${this.hass}
+            .entryId=${this._entryId}
+            @back=${() => this._navigateTo("device-list")}
+          ></hm-desired-state>
+        `;
+      case "write-queue":
+        return html`
+          <hm-write-queue
+            .hass=${this.hass}
+            .entryId=${this._entryId}
+            @back=${() => this._navigateTo("device-list")}
+          ></hm-write-queue>
+        `;
     }
   }
 
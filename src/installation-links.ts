@@ -0,0 +1,66 @@
+/**
+ * Installation-wide direct links: collects the links of all devices on
+ * linkable interfaces and removes the duplicates reported by both peers.
+ */
+
+import { listDeviceLinks, LINKABLE_INTERFACES } from "./api";
+import type { ProgressCallback } from "./backup";
+import type { HomeAssistant, DeviceInfo, LinkInfo } from "./types";
+
+export interface InstallationLink extends LinkInfo {
+  /** Interface ID of the device the link was read from. */
+  interface_id: string;
+}
+
+export function linkKey(senderAddress: string, receiverAddress: string): string {
+  return `${senderAddress}|${receiverAddress}`;
+}
+
+/** Read the direct links of all linkable devices, keyed by device address. */
+export async function collectDeviceLinks(
+  hass: HomeAssistant,
+  entryId: string,
+  devices: DeviceInfo[],
+  onProgress?: ProgressCallback
+): Promise<Map<string, LinkInfo[]>> {
+  const linkable = devices.filter((d) => LINKABLE_INTERFACES.has(d.interface));
+  const result = new Map<string, LinkInfo[]>();
+
+  for (const [index, device] of linkable.entries()) {
+    onProgress?.(index, linkable.length);
+    result.set(
+      device.address,
+      await listDeviceLinks(hass, entryId, device.interface_id, device.address)
+    );
+  }
+  onProgress?.(linkable.length, linkable.length);
+  return result;
+}
+
+/** Merge per-device link lists, keeping each link once. */
+export function mergeDeviceLinks(
+  devices: DeviceInfo[],
+  deviceLinks: Map<string, LinkInfo[]>
+): InstallationLink[] {
+  const links = new Map<string, InstallationLink>();
+  for (const device of devices) {
+    for (const link of deviceLinks.get(device.address) ?? []) {
+      const key = linkKey(link.sender_address, link.receiver_address);
+      if (!links.has(key)) {
+        links.set(key, { ...link, interface_id: device.interface_id });
+      }
+    }
+  }
+  return [...links.values()];
+}
+
+/** Read the direct links of all linkable devices, each link once. */
+export async function collectInstallationLinks(
+  hass: HomeAssistant,
+  entryId: string,
+  devices: DeviceInfo[],
+  onProgress?: ProgressCallback
+): Promise<InstallationLink[]> {
+  const deviceLinks = await collectDeviceLinks(hass, entryId, devices, onProgress);
+  return mergeDeviceLinks(devices, deviceLinks);
+}
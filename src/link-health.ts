@@ -0,0 +1,80 @@
+/**
+ * Link health check: flags direct links whose peer device is gone,
+ * unreachable or waiting for configuration, and links that only one of the
+ * two devices still knows about.
+ */
+
+import { LINKABLE_INTERFACES } from "./api";
+import { deviceAddressOf } from "./device-utils";
+import { linkKey, mergeDeviceLinks } from "./installation-links";
+import type { InstallationLink } from "./installation-links";
+import type { DeviceInfo, LinkInfo } from "./types";
+
+export type LinkProblem = "missing_peer" | "unreachable" | "config_pending" | "one_sided";
+
+/** Problems that mean the link is stale and can be removed. */
+export const CLEANUP_PROBLEMS: ReadonlySet<LinkProblem> = new Set(["missing_peer", "one_sided"]);
+
+/** Virtual central devices (CCU remote keys) that never appear in the device list. */
+const VIRTUAL_CENTRAL_ADDRESSES = new Set(["BidCoS-RF", "BidCoS-Wir", "HmIP-RCV-1"]);
+
+export interface LinkIssue {
+  link: InstallationLink;
+  problems: LinkProblem[];
+  /** Addresses of the devices the problems refer to. */
+  affected: string[];
+}
+
+/** Evaluate all links read from the given devices. Healthy links are omitted. */
+export function checkLinkHealth(
+  devices: DeviceInfo[],
+  deviceLinks: Map<string, LinkInfo[]>
+): LinkIssue[] {
+  const byAddress = new Map(devices.map((d) => [d.address, d]));
+  const knownKeys = new Map<string, Set<string>>();
+  for (const [address, links] of deviceLinks) {
+    knownKeys.set(address, new Set(links.map((l) => linkKey(l.sender_address, l.receiver_address))));
+  }
+
+  const issues: LinkIssue[] = [];
+  for (const link of mergeDeviceLinks(devices, deviceLinks)) {
+    const problems = new Set<LinkProblem>();
+    const affected = new Set<string>();
+    const key = linkKey(link.sender_address, link.receiver_address);
+    const endpoints = [
+      deviceAddressOf(link.sender_address),
+      deviceAddressOf(link.receiver_address),
+    ];
+
+    for (const address of endpoints) {
+      if (VIRTUAL_CENTRAL_ADDRESSES.has(address)) continue;
+      const device = byAddress.get(address);
+      if (!device) {
+        problems.add("missing_peer");
+        affected.add(address);
+        continue;
+      }
+      if (device.maintenance.unreach) {
+        problems.add("unreachable");
+        affected.add(address);
+      }
+      if (device.maintenance.config_pending) {
+        problems.add("config_pending");
+        affected.add(address);
+      }
+      if (
+        LINKABLE_INTERFACES.has(device.interface) &&
+        knownKeys.has(address) &&
+        !knownKeys.get(address)!.has(key)
+      ) {
+        problems.add("one_sided");
+        affected.add(address);
+      }
+    }
+
+    if (problems.size > 0) {
+      issues.push({ link, problems: [...problems], affected: [...affected] });
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,124 @@
+/**
+ * Link profile presets: common sender/actuator behaviours expressed as LINK
+ * paramset values. Parameter names are given without the SHORT_/LONG_ prefix
+ * and string values name enum options, so one preset serves both press types
+ * and every actuator that exposes the same parameters.
+ */
+
+import { findParameter } from "./paramset-diff";
+import type { FormSchema } from "./types";
+
+export type PressType = "SHORT" | "LONG";
+
+/** ON_TIME/OFF_TIME value that actuators treat as "no timeout". */
+const PERMANENT = 111600;
+
+export interface LinkProfile {
+  id: string;
+  values: Record<string, string | number>;
+  /** Parameter (without prefix) the user may adjust after choosing the preset. */
+  adjustable?: string;
+}
+
+export const LINK_PROFILES: LinkProfile[] = [
+  {
+    id: "on",
+    values: {
+      ACTION_TYPE: "JUMP_TO_TARGET",
+      JT_OFF: "ONDELAY",
+      JT_ONDELAY: "ON",
+      JT_ON: "ON",
+      JT_OFFDELAY: "ON",
+      ON_TIME: PERMANENT,
+    },
+  },
+  {
+    id: "off",
+    values: {
+      ACTION_TYPE: "JUMP_TO_TARGET",
+      JT_ON: "OFFDELAY",
+      JT_OFFDELAY: "OFF",
+      JT_OFF: "OFF",
+      JT_ONDELAY: "OFF",
+      OFF_TIME: PERMANENT,
+    },
+  },
+  {
+    id: "toggle",
+    values: {
+      ACTION_TYPE: "JUMP_TO_TARGET",
+      JT_OFF: "ONDELAY",
+      JT_ONDELAY: "ON",
+      JT_ON: "OFFDELAY",
+      JT_OFFDELAY: "OFF",
+      ON_TIME: PERMANENT,
+      OFF_TIME: PERMANENT,
+    },
+  },
+  {
+    id: "staircase",
+    values: {
+      ACTION_TYPE: "JUMP_TO_TARGET",
+      JT_OFF: "ONDELAY",
+      JT_ONDELAY: "ON",
+      JT_ON: "ON",
+      JT_OFFDELAY: "ON",
+      ON_TIME: 180,
+    },
+    adjustable: "ON_TIME",
+  },
+  { id: "dim_up", values: { ACTION_TYPE: "UPDIM" } },
+  { id: "dim_down", values: { ACTION_TYPE: "DOWNDIM" } },
+  { id: "dim_toggle", values: { ACTION_TYPE: "TOGGLEDIM" } },
+];
+
+/**
+ * Raw LINK values a profile sets for one press type, or null when the schema
+ * lacks one of its parameters or enum options.
+ */
+export function resolveProfile(
+  schema: FormSchema | null,
+  profile: LinkProfile,
+  press: PressType,
+  overrides: Record<string, number> = {}
+): Record<string, unknown> | null {
+  const values: Record<string, unknown> = {};
+  for (const [key, preset] of Object.entries({ ...profile.values, ...overrides })) {
+    const param = findParameter(schema, `${press}_${key}`);
+    if (!param?.writable) return null;
+    if (typeof preset === "string") {
+      const index = param.options?.indexOf(preset) ?? -1;
+      if (index < 0) return null;
+      values[param.id] = index;
+    } else {
+      values[param.id] = param.max !== undefined ? Math.min(preset, param.max) : preset;
+    }
+  }
+  return values;
+}
+
+/** Profiles that can be applied to the given link schema for one press type. */
+export function applicableProfiles(schema: FormSchema | null, press: PressType): LinkProfile[] {
+  return LINK_PROFILES.filter((p) => resolveProfile(schema, p, press) !== null);
+}
+
+/**
+ * The applicable profile whose values all match the effective link values
+ * (current values with pending changes applied). The adjustable parameter
+ * is ignored, so a staircase timer is recognized with any duration.
+ */
+export function matchProfile(
+  schema: FormSchema | null,
+  press: PressType,
+  effective: (parameterId: string) => unknown
+): LinkProfile | null {
+  for (const profile of applicableProfiles(schema, press)) {
+    const values = resolveProfile(schema, profile, press)!;
+    const adjustable = profile.adjustable && `${press}_${profile.adjustable}`;
+    const matches = Object.entries(values).every(
+      ([id, value]) => id === adjustable || effective(id) === value
+    );
+    if (matches) return profile;
+  }
+  return null;
+}
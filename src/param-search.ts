@@ -0,0 +1,99 @@
+/**
+ * Installation-wide parameter search: scans the MASTER paramsets of all
+ * channels of one type and keeps those whose value matches a condition.
+ */
+
+import { getParamset } from "./api";
+import { findChannelsByType } from "./device-utils";
+import { valuesEqual } from "./paramset-diff";
+import type { ProgressCallback } from "./backup";
+import type { ChannelRef } from "./device-utils";
+import type { HomeAssistant, DeviceInfo, FormParameter } from "./types";
+
+export type SearchOperator = "eq" | "ne" | "lt" | "gt" | "contains";
+
+export const SEARCH_OPERATORS: SearchOperator[] = ["eq", "ne", "lt", "gt", "contains"];
+
+export interface SearchQuery {
+  channelType: string;
+  parameter: string;
+  operator: SearchOperator;
+  /** Value as entered; converted with the parameter type before comparing. */
+  value: string;
+}
+
+export interface SearchMatch extends ChannelRef {
+  value: unknown;
+}
+
+export interface SearchResult {
+  matches: SearchMatch[];
+  scanned: number;
+  /** Channels whose paramset could not be read. */
+  failed: string[];
+}
+
+/** Convert an entered value to the type of the parameter. */
+export function parseSearchValue(param: FormParameter | undefined, raw: string): unknown {
+  if (param?.widget === "toggle") return raw === "true";
+  if (param?.options || param?.type === "integer" || param?.type === "float") {
+    const number = Number(raw);
+    return raw.trim() === "" || Number.isNaN(number) ? raw : number;
+  }
+  return raw;
+}
+
+export function matchesCondition(
+  value: unknown,
+  operator: SearchOperator,
+  target: unknown
+): boolean {
+  switch (operator) {
+    case "eq":
+      return valuesEqual(value, target);
+    case "ne":
+      return !valuesEqual(value, target);
+    case "lt":
+      return typeof value === "number" && typeof target === "number" && value < target;
+    case "gt":
+      return typeof value === "number" && typeof target === "number" && value > target;
+    case "contains":
+      return String(value ?? "").toLowerCase().includes(String(target).toLowerCase());
+  }
+}
+
+/** Read the paramsets of all channels of the query's type and return the matching ones. */
+export async function searchParameter(
+  hass: HomeAssistant,
+  entryId: string,
+  devices: DeviceInfo[],
+  query: SearchQuery,
+  param: FormParameter | undefined,
+  onProgress?: ProgressCallback
+): Promise<SearchResult> {
+  const refs = findChannelsByType(devices, query.channelType);
+  const target = parseSearchValue(param, query.value);
+  const result: SearchResult = { matches: [], scanned: 0, failed: [] };
+
+  for (const [index, ref] of refs.entries()) {
+    onProgress?.(index, refs.length);
+    try {
+      const values = await getParamset(
+        hass,
+        entryId,
+        ref.device.interface_id,
+        ref.channel.address
+      );
+      result.scanned++;
+      if (!(query.parameter in values)) continue;
+      const value = values[query.parameter];
+      if (matchesCondition(value, query.operator, target)) {
+        result.matches.push({ ...ref, value });
+      }
+    } catch {
+      result.failed.push(ref.channel.address);
+    }
+  }
+  onProgress?.(refs.length, refs.length);
+  return result;
+}
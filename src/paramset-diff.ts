@@ -0,0 +1,78 @@
+/**
+ * Helpers for comparing paramset values and presenting the differences
+ * with the labels and options of a form schema.
+ */
+
+import type { FormSchema, FormParameter } from "./types";
+
+export interface ParamsetChange {
+  parameter: string;
+  old: unknown;
+  new: unknown;
+}
+
+/** Compare two paramset values, treating structurally equal values as equal. */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a === "object" || typeof b === "object") {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return false;
+}
+
+/**
+ * List the parameters whose desired value differs from the current one.
+ * When `parameters` is given, only those parameters are considered.
+ */
+export function diffParamsets(
+  current: Record<string, unknown>,
+  desired: Record<string, unknown>,
+  parameters?: Set<string>
+): ParamsetChange[] {
+  const changes: ParamsetChange[] = [];
+  for (const [parameter, value] of Object.entries(desired)) {
+    if (parameters && !parameters.has(parameter)) continue;
+    if (!valuesEqual(current[parameter], value)) {
+      changes.push({ parameter, old: current[parameter], new: value });
+    }
+  }
+  return changes;
+}
+
+/** Build a values object from a list of changes. */
+export function changesToValues(changes: ParamsetChange[]): Record<string, unknown> {
+  return Object.fromEntries(changes.map((c) => [c.parameter, c.new]));
+}
+
+/** Find a parameter of a schema by its id. */
+export function findParameter(
+  schema: FormSchema | null | undefined,
+  parameterId: string
+): FormParameter | undefined {
+  if (!schema) return undefined;
+  for (const section of schema.sections) {
+    const found = section.parameters.find((p) => p.id === parameterId);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/** Ids of all writable parameters of a schema. */
+export function writableParameters(schema: FormSchema): Set<string> {
+  const ids = new Set<string>();
+  for (const section of schema.sections) {
+    for (const param of section.parameters) {
+      if (param.writable) ids.add(param.id);
+    }
+  }
+  return ids;
+}
+
+/** Format a value for display, resolving enum indexes to option names. */
+export function formatValue(param: FormParameter | undefined, value: unknown): string {
+  if (value === undefined || value === null) return "\u2014";
+  if (param?.options && typeof value === "number") {
+    return param.options[value] ?? String(value);
+  }
+  return String(value);
+}
@@ -0,0 +1,118 @@
+/**
+ * Named configuration presets: MASTER values of a channel type saved in the
+ * browser's local storage, optionally limited to one device model.
+ */
+
+export const PRESET_FORMAT = "homematic-config-presets";
+export const PRESET_VERSION = 1;
+
+const STORAGE_KEY = "homematic-config-panel.presets";
+
+export interface ConfigPreset {
+  id: string;
+  name: string;
+  channel_type: string;
+  /** Device model the preset is limited to; empty for all models. */
+  model: string;
+  values: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface PresetFile {
+  format: typeof PRESET_FORMAT;
+  version: number;
+  presets: ConfigPreset[];
+}
+
+function newPresetId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function isPreset(value: unknown): value is ConfigPreset {
+  const p = value as Partial<ConfigPreset> | null;
+  return (
+    typeof p?.name === "string" &&
+    typeof p.channel_type === "string" &&
+    typeof p.values === "object" &&
+    p.values !== null
+  );
+}
+
+/** All stored presets; an unreadable store counts as empty. */
+export function loadPresets(): ConfigPreset[] {
+  try {
+    const data = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]") as unknown;
+    return Array.isArray(data) ? data.filter(isPreset) : [];
+  } catch {
+    return [];
+  }
+}
+
+function storePresets(presets: ConfigPreset[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+}
+
+export function addPreset(
+  name: string,
+  channelType: string,
+  model: string,
+  values: Record<string, unknown>
+): ConfigPreset {
+  const preset: ConfigPreset = {
+    id: newPresetId(),
+    name,
+    channel_type: channelType,
+    model,
+    values,
+    created_at: new Date().toISOString(),
+  };
+  storePresets([...loadPresets(), preset]);
+  return preset;
+}
+
+export function renamePreset(id: string, name: string): void {
+  storePresets(loadPresets().map((p) => (p.id === id ? { ...p, name } : p)));
+}
+
+export function deletePreset(id: string): void {
+  storePresets(loadPresets().filter((p) => p.id !== id));
+}
+
+/** Presets that can be applied to a channel of the given type on a device of the given model. */
+export function compatiblePresets(channelType: string, model: string): ConfigPreset[] {
+  return loadPresets()
+    .filter((p) => p.channel_type === channelType && (!p.model || p.model === model))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function exportPresets(presets: ConfigPreset[]): string {
+  const file: PresetFile = { format: PRESET_FORMAT, version: PRESET_VERSION, presets };
+  return JSON.stringify(file, null, 2);
+}
+
+export function parsePresetFile(text: string): ConfigPreset[] {
+  const data = JSON.parse(text) as Partial<PresetFile>;
+  if (data?.format !== PRESET_FORMAT || !Array.isArray(data.presets)) {
+    throw new Error("Not a preset file");
+  }
+  if (typeof data.version !== "number" || data.version > PRESET_VERSION) {
+    throw new Error(`Unsupported preset version: ${data.version}`);
+  }
+  return data.presets.filter(isPreset);
+}
+
+/** Add imported presets with new IDs, so importing the same file twice keeps both copies. */
+export function importPresets(presets: ConfigPreset[]): number {
+  const imported = presets.map((p) => ({
+    ...p,
+    id: newPresetId(),
+    model: p.model ?? "",
+    created_at: p.created_at ?? new Date().toISOString(),
+  }));
+  storePresets([...loadPresets(), ...imported]);
+  return imported.length;
+}
+
+export function presetFilename(): string {
+  return `homematic_presets_${new Date().toISOString().slice(0, 10)}.json`;
+}
@@ -0,0 +1,51 @@
+/**
+ * WebSocket subscriptions: live device events of a config entry, used to
+ * keep maintenance values (reachability, battery, RSSI, config pending)
+ * current while a view is open.
+ */
+
+import type { HomeAssistant, DeviceInfo, MaintenanceData } from "./types";
+
+export interface DeviceEvent {
+  device_address: string;
+  /** Changed maintenance values; values not included are unchanged. */
+  maintenance: MaintenanceData;
+}
+
+/**
+ * Subscribe to the device events of a config entry. Returns a function that
+ * ends the subscription; call it when the view disconnects.
+ */
+export function subscribeDeviceEvents(
+  hass: HomeAssistant,
+  entryId: string,
+  callback: (event: DeviceEvent) => void
+): () => void {
+  const subscription = hass.connection.subscribeMessage<DeviceEvent>(callback, {
+    type: "homematicip_local/config/subscribe_device_events",
+    entry_id: entryId,
+  });
+  // Without event support in the backend, data refreshes on navigation only
+  subscription.catch(() => undefined);
+  return () => {
+    subscription.then((unsubscribe) => unsubscribe()).catch(() => undefined);
+  };
+}
+
+/** Merge a device event into a device; returns the device itself when it is not affected. */
+export function applyDeviceEvent(device: DeviceInfo, event: DeviceEvent): DeviceInfo {
+  if (device.address !== event.device_address) return device;
+  return { ...device, maintenance: { ...device.maintenance, ...event.maintenance } };
+}
+
+/**
+ * Merge a device event into a device list; returns the list itself when none
+ * of its devices is affected, so unrelated events cause no re-render.
+ */
+export function applyDeviceEventToList(devices: DeviceInfo[], event: DeviceEvent): DeviceInfo[] {
+  const index = devices.findIndex((d) => d.address === event.device_address);
+  if (index < 0) return devices;
+  const next = [...devices];
+  next[index] = applyDeviceEvent(devices[index], event);
+  return next;
+}
@@ -10,11 +10,14 @@ export type {
   SessionUndoRedoResult,
   SessionSaveResult,
   ExportResult,
+  ParamsetExport,
   ImportResult,
   HistoryEntry,
   HistoryResult,
+  HistoryFilters,
   LinkInfo,
   LinkableChannel,
+  FirmwareInfo,
 } from "./api";
 
 export interface NavigationDetail {
@@ -26,8 +29,15 @@ export interface NavigationDetail {
 
 export interface HomeAssistant {
   callWS<T>(msg: Record<string, unknown>): Promise<T>;
+  connection: {
+    subscribeMessage<T>(
+      callback: (message: T) => void,
+      msg: Record<string, unknown>
+    ): Promise<() => Promise<void>>;
+  };
   config: { language: string };
   themes: { darkMode: boolean };
+  states: Record<string, { attributes: { friendly_name?: string } }>;
 }
 
 export interface PanelInfo {
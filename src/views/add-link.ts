@@ -12,7 +12,14 @@ import type {
   LinkableChannel,
 } from "../types";
 
-type WizardStep = "select-channel" | "select-peer" | "confirm";
+type WizardStep = "select-channel" | "select-peer" | "confirm" | "result";
+
+interface LinkResult {
+  sender: string;
+  receiver: string;
+  success: boolean;
+  error?: string;
+}
 
 @safeCustomElement("hm-add-link")
 export class HmAddLink extends LitElement {
@@ -25,13 +32,15 @@ export class HmAddLink extends LitElement {
   @state() private _device: DeviceInfo | null = null;
   @state() private _selectedChannel = "";
   @state() private _selectedRole: "sender" | "receiver" = "sender";
-  @state() private _selectedPeer = "";
+  @state() private _selectedPeers: Set<string> = new Set();
   @state() private _linkName = "";
   @state() private _linkableChannels: LinkableChannel[] = [];
   @state() private _filteredChannels: LinkableChannel[] = [];
   @state() private _searchQuery = "";
   @state() private _loading = false;
   @state() private _error = "";
+  @state() private _progress: { done: number; total: number } | null = null;
+  @state() private _results: LinkResult[] = [];
 
   updated(changedProps: Map<string, unknown>): void {
     if (
@@ -63,7 +72,7 @@ export class HmAddLink extends LitElement {
   private _handleBack(): void {
     if (this._step === "select-peer") {
       this._step = "select-channel";
-      this._selectedPeer = "";
+      this._selectedPeers = new Set();
       this._linkableChannels = [];
       this._filteredChannels = [];
       this._searchQuery = "";
@@ -73,6 +82,10 @@ export class HmAddLink extends LitElement {
       this._step = "select-peer";
       return;
     }
+    if (this._step === "result") {
+      this._finish();
+      return;
+    }
     this.dispatchEvent(
       new CustomEvent("back", { bubbles: true, composed: true })
     );
@@ -122,7 +135,7 @@ export class HmAddLink extends LitElement {
 
   private async _handleRoleChange(role: "sender" | "receiver"): Promise<void> {
     this._selectedRole = role;
-    this._selectedPeer = "";
+    this._selectedPeers = new Set();
     await this._fetchLinkableChannels();
   }
 
@@ -142,47 +155,104 @@ export class HmAddLink extends LitElement {
     }
   }
 
-  private _handleSelectPeer(address: string): void {
-    this._selectedPeer = address;
+  private _handleTogglePeer(address: string): void {
+    const next = new Set(this._selectedPeers);
+    if (next.has(address)) {
+      next.delete(address);
+    } else {
+      next.add(address);
+    }
+    this._selectedPeers = next;
+  }
+
+  private _handleSelectAllPeers(selected: boolean): void {
+    const next = new Set(this._selectedPeers);
+    for (const ch of this._filteredChannels) {
+      if (selected) {
+        next.add(ch.address);
+      } else {
+        next.delete(ch.address);
+      }
+    }
+    this._selectedPeers = next;
+  }
+
+  /** Sender and receiver of each link to create, in peer selection order. */
+  private get _plannedLinks(): { sender: string; receiver: string }[] {
+    return [...this._selectedPeers].map((peer) =>
+      this._selectedRole === "sender"
+        ? { sender: this._selectedChannel, receiver: peer }
+        : { sender: peer, receiver: this._selectedChannel }
+    );
   }
 
   private _handleNextToConfirm(): void {
-    if (!this._selectedPeer) return;
+    if (this._selectedPeers.size === 0) return;
     this._linkName = "";
     this._step = "confirm";
   }
 
+  /**
+   * Create the planned links one after another. A single link returns to the
+   * link list right away; several links end with a per-link report.
+   */
   private async _handleCreate(): Promise<void> {
+    await this._createLinks(this._plannedLinks);
+  }
+
+  private async _handleRetryFailed(): Promise<void> {
+    const failed = this._results.filter((r) => !r.success);
+    await this._createLinks(failed, this._results.filter((r) => r.success));
+  }
+
+  private async _createLinks(
+    links: { sender: string; receiver: string }[],
+    previous: LinkResult[] = []
+  ): Promise<void> {
     this._loading = true;
+    const results = [...previous];
     try {
-      const sender =
-        this._selectedRole === "sender"
-          ? this._selectedChannel
-          : this._selectedPeer;
-      const receiver =
-        this._selectedRole === "sender"
-          ? this._selectedPeer
-          : this._selectedChannel;
-
-      await addLink(
-        this.hass,
-        this.entryId,
-        sender,
-        receiver,
-        this._linkName || undefined
-      );
-      showToast(this, { message: this._l("add_link.create_success") });
-      this.dispatchEvent(
-        new CustomEvent("link-created", {
-          bubbles: true,
-          composed: true,
-        })
-      );
-    } catch {
-      showToast(this, { message: this._l("add_link.create_failed") });
+      for (const [index, { sender, receiver }] of links.entries()) {
+        this._progress = { done: index, total: links.length };
+        try {
+          const result = await addLink(
+            this.hass,
+            this.entryId,
+            sender,
+            receiver,
+            this._linkName || undefined
+          );
+          results.push({ sender, receiver, success: result.success });
+        } catch (err) {
+          results.push({ sender, receiver, success: false, error: String(err) });
+        }
+      }
     } finally {
       this._loading = false;
+      this._progress = null;
     }
+    this._results = results;
+
+    if (results.length === 1) {
+      if (results[0].success) {
+        showToast(this, { message: this._l("add_link.create_success") });
+        this._finish();
+      } else {
+        this._results = [];
+        showToast(this, { message: this._l("add_link.create_failed") });
+      }
+      return;
+    }
+    this._step = "result";
+  }
+
+  private _finish(): void {
+    this.dispatchEvent(
+      new CustomEvent("link-created", {
+        bubbles: true,
+        composed: true,
+      })
+    );
   }
 
   render() {
@@ -192,7 +262,7 @@ export class HmAddLink extends LitElement {
 
     return html`
       <button class="back-button" @click=${this._handleBack}>
-        \u25C2 ${this._step === "select-channel"
+        \u25C2 ${this._step === "select-channel" || this._step === "result"
           ? this._l("common.back")
           : this._l("add_link.back")}
       </button>
@@ -207,7 +277,9 @@ export class HmAddLink extends LitElement {
         ? this._renderStepChannel()
         : this._step === "select-peer"
           ? this._renderStepPeer()
-          : this._renderStepConfirm()}
+          : this._step === "confirm"
+            ? this._renderStepConfirm()
+            : this._renderStepResult()}
     `;
   }
 
@@ -300,19 +372,36 @@ export class HmAddLink extends LitElement {
                 />
               </div>
 
+              ${this._filteredChannels.length > 0
+                ? html`
+                    <div class="selection-bar">
+                      <span>
+                        ${this._l("add_link.peers_selected", {
+                          count: this._selectedPeers.size,
+                        })}
+                      </span>
+                      <button class="link-button" @click=${() => this._handleSelectAllPeers(true)}>
+                        ${this._l("channel_picker.select_all")}
+                      </button>
+                      <button class="link-button" @click=${() => this._handleSelectAllPeers(false)}>
+                        ${this._l("channel_picker.select_none")}
+                      </button>
+                    </div>
+                  `
+                : nothing}
+
               <div class="radio-list">
                 ${this._filteredChannels.length === 0
                   ? html`<div class="empty-state">${this._l("add_link.no_compatible")}</div>`
                   : this._filteredChannels.map((ch) => {
-                      const isSelected = this._selectedPeer === ch.address;
+                      const isSelected = this._selectedPeers.has(ch.address);
                       return html`
                         <div
                           class="radio-option ${isSelected ? "selected" : ""}"
-                          @click=${() => this._handleSelectPeer(ch.address)}
+                          @click=${() => this._handleTogglePeer(ch.address)}
                         >
                           <input
-                            type="radio"
-                            name="peer"
+                            type="checkbox"
                             .checked=${isSelected}
                           />
                           <div class="radio-content">
@@ -333,7 +422,7 @@ export class HmAddLink extends LitElement {
                     <div class="wizard-actions">
                       <button
                         class="btn btn-primary"
-                        ?disabled=${!this._selectedPeer}
+                        ?disabled=${this._selectedPeers.size === 0}
                         @click=${this._handleNextToConfirm}
                       >
                         ${this._l("add_link.next")} \u25B8
@@ -347,15 +436,10 @@ export class HmAddLink extends LitElement {
   }
 
   private _renderStepConfirm() {
-    const senderAddr =
-      this._selectedRole === "sender"
-        ? this._selectedChannel
-        : this._selectedPeer;
-    const receiverAddr =
-      this._selectedRole === "sender"
-        ? this._selectedPeer
-        : this._selectedChannel;
+    const links = this._plannedLinks;
+    if (links.length > 1) return this._renderConfirmMany(links);
 
+    const { sender: senderAddr, receiver: receiverAddr } = links[0];
     const senderName = this._resolveName(senderAddr);
     const receiverName = this._resolveName(receiverAddr);
 
@@ -411,6 +495,140 @@ export class HmAddLink extends LitElement {
     `;
   }
 
+  private _renderConfirmMany(links: { sender: string; receiver: string }[]) {
+    return html`
+      <div class="wizard-step">
+        <div class="step-indicator">${this._l("add_link.step_confirm")}</div>
+        <div class="step-description">
+          ${this._l("add_link.confirm_many", { count: links.length })}
+        </div>
+
+        <div class="link-list">
+          ${links.map(
+            ({ sender, receiver }) => html`
+              <div class="link-list-row">
+                <div class="link-list-endpoint">
+                  <span class="link-endpoint-address">${sender}</span>
+                  <span class="link-endpoint-name">${this._resolveName(sender)}</span>
+                </div>
+                <span class="link-list-arrow">\u2192</span>
+                <div class="link-list-endpoint">
+                  <span class="link-endpoint-address">${receiver}</span>
+                  <span class="link-endpoint-name">${this._resolveName(receiver)}</span>
+                </div>
+              </div>
+            `
+          )}
+        </div>
+
+        <div class="name-input">
+          <label for="link-name">${this._l("add_link.link_name")}</label>
+          <input
+            id="link-name"
+            type="text"
+            .value=${this._linkName}
+            @input=${(e: Event) => {
+              this._linkName = (e.target as HTMLInputElement).value;
+            }}
+          />
+        </div>
+
+        ${this._progress
+          ? html`
+              <div class="progress">
+                <progress
+                  max=${this._progress.total}
+                  .value=${this._progress.done}
+                ></progress>
+                ${this._l("add_link.creating_progress", {
+                  done: this._progress.done,
+                  total: this._progress.total,
+                })}
+              </div>
+            `
+          : nothing}
+
+        <div class="wizard-actions">
+          <button
+            class="btn btn-primary"
+            ?disabled=${this._loading}
+            @click=${this._handleCreate}
+          >
+            ${this._loading
+              ? this._l("common.loading")
+              : this._l("add_link.create_many", { count: links.length })}
+          </button>
+        </div>
+      </div>
+    `;
+  }
+
+  private _renderStepResult() {
+    const succeeded = this._results.filter((r) => r.success).length;
+    const failed = this._results.length - succeeded;
+
+    return html`
+      <div class="wizard-step">
+        <div class="step-indicator">${this._l("add_link.step_result")}</div>
+        <div class="step-description">
+          ${this._l("add_link.result_summary", { succeeded, failed })}
+        </div>
+
+        <div class="link-list">
+          ${this._results.map(
+            (result) => html`
+              <div class="link-list-row">
+                <span class="result-badge ${result.success ? "success" : "failed"}">
+                  ${result.success
+                    ? this._l("add_link.result_created")
+                    : this._l("add_link.result_failed")}
+                </span>
+                <span class="link-endpoint-address">${result.sender}</span>
+                <span class="link-list-arrow">\u2192</span>
+                <span class="link-endpoint-address">${result.receiver}</span>
+                ${result.error
+                  ? html`<span class="result-error">${result.error}</span>`
+                  : nothing}
+              </div>
+            `
+          )}
+        </div>
+
+        ${this._progress
+          ? html`
+              <div class="progress">
+                <progress
+                  max=${this._progress.total}
+                  .value=${this._progress.done}
+                ></progress>
+                ${this._l("add_link.creating_progress", {
+                  done: this._progress.done,
+                  total: this._progress.total,
+                })}
+              </div>
+            `
+          : nothing}
+
+        <div class="wizard-actions">
+          ${failed > 0
+            ? html`
+                <button
+                  class="btn btn-secondary"
+                  ?disabled=${this._loading}
+                  @click=${this._handleRetryFailed}
+                >
+                  ${this._l("add_link.retry_failed")}
+                </button>
+              `
+            : nothing}
+          <button class="btn btn-primary" ?disabled=${this._loading} @click=${this._finish}>
+            ${this._l("add_link.done")}
+          </button>
+        </div>
+      </div>
+    `;
+  }
+
   private _resolveName(address: string): string {
     if (!this._device) return address;
     // Check if it's a channel of the current device
@@ -538,7 +756,8 @@ export class HmAddLink extends LitElement {
         background: rgba(3, 169, 244, 0.05);
       }
 
-      .radio-option input[type="radio"] {
+      .radio-option input[type="radio"],
+      .radio-option input[type="checkbox"] {
         margin-right: 12px;
         flex-shrink: 0;
       }
@@ -599,6 +818,107 @@ export class HmAddLink extends LitElement {
         color: var(--primary-color, #03a9f4);
       }
 
+      .selection-bar {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        margin-bottom: 8px;
+        font-size: 13px;
+        color: var(--secondary-text-color);
+      }
+
+      .selection-bar span {
+        flex: 1;
+      }
+
+      .link-button {
+        background: none;
+        border: none;
+        padding: 0;
+        color: var(--primary-color, #03a9f4);
+        cursor: pointer;
+        font-size: 13px;
+        font-family: inherit;
+      }
+
+      .link-button:hover {
+        text-decoration: underline;
+      }
+
+      .link-list {
+        display: flex;
+        flex-direction: column;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 8px;
+        margin-bottom: 16px;
+        max-height: 400px;
+        overflow-y: auto;
+      }
+
+      .link-list-row {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 12px;
+        padding: 8px 12px;
+        border-bottom: 1px solid var(--divider-color, #e0e0e0);
+        font-size: 13px;
+      }
+
+      .link-list-row:last-child {
+        border-bottom: none;
+      }
+
+      .link-list-endpoint {
+        display: flex;
+        flex-direction: column;
+        min-width: 0;
+      }
+
+      .link-list-endpoint .link-endpoint-address {
+        font-size: 13px;
+      }
+
+      .link-list-arrow {
+        color: var(--primary-color, #03a9f4);
+      }
+
+      .result-badge {
+        font-size: 11px;
+        padding: 2px 8px;
+        border-radius: 12px;
+        color: #fff;
+        text-transform: uppercase;
+        flex-shrink: 0;
+      }
+
+      .result-badge.success {
+        background: var(--success-color, #43a047);
+      }
+
+      .result-badge.failed {
+        background: var(--error-color, #db4437);
+      }
+
+      .result-error {
+        width: 100%;
+        font-size: 12px;
+        color: var(--error-color, #db4437);
+      }
+
+      .progress {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        margin-bottom: 16px;
+        font-size: 13px;
+        color: var(--secondary-text-color);
+      }
+
+      .progress progress {
+        flex: 1;
+      }
+
       .name-input {
         margin-bottom: 16px;
       }
@@ -630,6 +950,7 @@ export class HmAddLink extends LitElement {
       .wizard-actions {
         display: flex;
         justify-content: flex-end;
+        gap: 8px;
         margin-top: 16px;
         padding-top: 16px;
         border-top: 1px solid var(--divider-color, #e0e0e0);
@@ -659,6 +980,16 @@ export class HmAddLink extends LitElement {
         opacity: 0.9;
       }
 
+      .btn-secondary {
+        background: transparent;
+        color: var(--primary-text-color);
+        border-color: var(--divider-color, #e0e0e0);
+      }
+
+      .btn-secondary:hover:not(:disabled) {
+        background: var(--secondary-background-color, #f5f5f5);
+      }
+
       @media (max-width: 600px) {
         .role-buttons {
           flex-direction: column;
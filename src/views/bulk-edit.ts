@@ -0,0 +1,600 @@
+import { LitElement, html, css, nothing } from "lit";
+import { property, state } from "lit/decorators.js";
+import { safeCustomElement } from "../safe-element";
+import { sharedStyles } from "../styles";
+import { listDevices, getFormSchema, getParamset, putParamset } from "../api";
+import { localize } from "../localize";
+import { showConfirmationDialog, showToast } from "../ha-helpers";
+import { findChannelsByType } from "../device-utils";
+import {
+  diffParamsets,
+  changesToValues,
+  findParameter,
+  formatValue,
+  valuesEqual,
+} from "../paramset-diff";
+import "../components/channel-picker";
+import "../components/config-form";
+import type { ChannelRef } from "../device-utils";
+import type { HomeAssistant, DeviceInfo, FormSchema } from "../types";
+
+type BulkStep = "select-type" | "select-channels" | "edit" | "result";
+
+interface ChannelResult {
+  status: "success" | "unchanged" | "validation_failed" | "failed";
+  validationErrors?: Record<string, string>;
+  error?: string;
+}
+
+@safeCustomElement("hm-bulk-edit")
+export class HmBulkEdit extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+  @property() public entryId = "";
+  @property() public channelType = "";
+
+  @state() private _step: BulkStep = "select-type";
+  @state() private _devices: DeviceInfo[] = [];
+  @state() private _selectedType = "";
+  @state() private _selectedChannels: Set<string> = new Set();
+  @state() private _schema: FormSchema | null = null;
+  @state() private _channelValues: Map<string, Record<string, unknown>> = new Map();
+  @state() private _mixedParameters: Set<string> = new Set();
+  @state() private _pendingChanges: Map<string, unknown> = new Map();
+  @state() private _results: Map<string, ChannelResult> = new Map();
+  @state() private _loading = true;
+  @state() private _saving = false;
+  @state() private _error = "";
+
+  updated(changedProps: Map<string, unknown>): void {
+    if (changedProps.has("entryId") && this.entryId) {
+      this._fetchDevices();
+    }
+  }
+
+  private async _fetchDevices(): Promise<void> {
+    this._loading = true;
+    this._error = "";
+    try {
+      this._devices = await listDevices(this.hass, this.entryId);
+      if (this.channelType && this._channelTypes.has(this.channelType)) {
+        this._selectedType = this.channelType;
+        this._step = "select-channels";
+      }
+    } catch (err) {
+      this._error = String(err);
+    } finally {
+      this._loading = false;
+    }
+  }
+
+  private _l(key: string, params?: Record<string, string | number>): string {
+    return localize(this.hass, key, params);
+  }
+
+  /** Channel types with a MASTER paramset and the number of channels of each type. */
+  private get _channelTypes(): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const device of this._devices) {
+      for (const channel of device.channels) {
+        if (!channel.paramset_keys.includes("MASTER")) continue;
+        counts.set(channel.channel_type, (counts.get(channel.channel_type) ?? 0) + 1);
+      }
+    }
+    return new Map([...counts.entries()].sort((a, b) => a[0].localeCompare(b[0])));
+  }
+
+  private get _candidates(): ChannelRef[] {
+    return findChannelsByType(this._devices, this._selectedType);
+  }
+
+  private get _selectedRefs(): ChannelRef[] {
+    return this._candidates.filter(({ channel }) =>
+      this._selectedChannels.has(channel.address)
+    );
+  }
+
+  private get _isDirty(): boolean {
+    return this._pendingChanges.size > 0;
+  }
+
+  private async _handleBack(): Promise<void> {
+    if (this._step === "edit" && this._isDirty) {
+      const confirmed = await showConfirmationDialog(this, {
+        title: this._l("channel_config.unsaved_title"),
+        text: this._l("channel_config.unsaved_warning"),
+        confirmText: this._l("channel_config.discard"),
+        dismissText: this._l("common.cancel"),
+        destructive: true,
+      });
+      if (!confirmed) return;
+    }
+    if (this._step === "edit") {
+      this._step = "select-channels";
+      this._pendingChanges = new Map();
+      return;
+    }
+    if (this._step === "select-channels") {
+      this._step = "select-type";
+      this._selectedChannels = new Set();
+      return;
+    }
+    this.dispatchEvent(new CustomEvent("back", { bubbles: true, composed: true }));
+  }
+
+  private _handleSelectType(channelType: string): void {
+    this._selectedType = channelType;
+  }
+
+  private _handleNextToChannels(): void {
+    if (!this._selectedType) return;
+    this._selectedChannels = new Set();
+    this._step = "select-channels";
+  }
+
+  private async _handleNextToEdit(): Promise<void> {
+    const refs = this._selectedRefs;
+    if (refs.length === 0) return;
+    this._step = "edit";
+    this._loading = true;
+    this._error = "";
+    this._pendingChanges = new Map();
+    this._results = new Map();
+    try {
+      const first = refs[0];
+      const schema = await getFormSchema(
+        this.hass,
+        this.entryId,
+        first.device.interface_id,
+        first.channel.address,
+        this._selectedType
+      );
+      const values = new Map<string, Record<string, unknown>>();
+      for (const { device, channel } of refs) {
+        values.set(
+          channel.address,
+          await getParamset(this.hass, this.entryId, device.interface_id, channel.address)
+        );
+      }
+      this._channelValues = values;
+      this._mergeSchema(schema);
+    } catch (err) {
+      this._error = String(err);
+    } finally {
+      this._loading = false;
+    }
+  }
+
+  /**
+   * Build a schema whose current values are the values shared by all selected
+   * channels. Parameters with differing values are marked as mixed.
+   */
+  private _mergeSchema(schema: FormSchema): void {
+    const allValues = [...this._channelValues.values()];
+    const mixed = new Set<string>();
+    this._schema = {
+      ...schema,
+      sections: schema.sections.map((section) => ({
+        ...section,
+        parameters: section.parameters.map((param) => {
+          const first = allValues[0]?.[param.id];
+          if (allValues.every((values) => valuesEqual(values[param.id], first))) {
+            return { ...param, current_value: first, modified: false };
+          }
+          mixed.add(param.id);
+          return { ...param, current_value: null, modified: false };
+        }),
+      })),
+    };
+    this._mixedParameters = mixed;
+  }
+
+  private _handleValueChanged(e: CustomEvent): void {
+    const { parameterId, value, currentValue } = e.detail;
+
+    if (value === currentValue) {
+      this._pendingChanges.delete(parameterId);
+    } else {
+      this._pendingChanges.set(parameterId, value);
+    }
+    this._pendingChanges = new Map(this._pendingChanges);
+  }
+
+  private _handleDiscard(): void {
+    this._pendingChanges = new Map();
+  }
+
+  private async _handleSave(): Promise<void> {
+    if (!this._isDirty || this._saving) return;
+
+    const changeSummary = [...this._pendingChanges.entries()]
+      .map(([key, value]) => {
+        const param = findParameter(this._schema, key);
+        return `${param?.label ?? key}: ${formatValue(param, value)}`;
+      })
+      .join("\n");
+
+    const confirmed = await showConfirmationDialog(this, {
+      title: this._l("bulk_edit.confirm_title"),
+      text: `${this._l("bulk_edit.confirm_text", {
+        count: this._pendingChanges.size,
+        channels: this._selectedChannels.size,
+      })}\n\n${changeSummary}`,
+      confirmText: this._l("common.save"),
+      dismissText: this._l("common.cancel"),
+    });
+    if (!confirmed) return;
+
+    this._saving = true;
+    this._results = new Map();
+    const pending = Object.fromEntries(this._pendingChanges);
+    for (const { device, channel } of this._selectedRefs) {
+      // Only write the parameters that actually differ on this channel
+      const changes = diffParamsets(
+        this._channelValues.get(channel.address) ?? {},
+        pending
+      );
+      if (changes.length === 0) {
+        this._setResult(channel.address, { status: "unchanged" });
+        continue;
+      }
+      try {
+        const result = await putParamset(
+          this.hass,
+          this.entryId,
+          device.interface_id,
+          channel.address,
+          changesToValues(changes)
+        );
+        this._setResult(
+          channel.address,
+          result.success
+            ? { status: "success" }
+            : { status: "validation_failed", validationErrors: result.validation_errors }
+        );
+      } catch (err) {
+        this._setResult(channel.address, { status: "failed", error: String(err) });
+      }
+    }
+    this._saving = false;
+    this._pendingChanges = new Map();
+    this._step = "result";
+
+    const failed = [...this._results.values()].filter(
+      (r) => r.status === "failed" || r.status === "validation_failed"
+    ).length;
+    showToast(this, {
+      message: failed
+        ? this._l("bulk_edit.save_partial", { failed })
+        : this._l("channel_config.save_success"),
+    });
+  }
+
+  private _setResult(address: string, result: ChannelResult): void {
+    this._results = new Map(this._results).set(address, result);
+  }
+
+  render() {
+    if (this._loading && this._devices.length === 0) {
+      return html`<div class="loading">${this._l("common.loading")}</div>`;
+    }
+
+    return html`
+      <button class="back-button" @click=${this._handleBack}>
+        \u25C2 ${this._step === "select-type" || this._step === "result"
+          ? this._l("common.back")
+          : this._l("add_link.back")}
+      </button>
+
+      <div class="bulk-header">
+        <h2>${this._l("bulk_edit.title")}</h2>
+        ${this._selectedType && this._step !== "select-type"
+          ? html`
+              <div class="device-info">
+                ${this._selectedType} \u2014
+                ${this._l("channel_picker.selected_count", {
+                  count: this._selectedChannels.size,
+                })}
+              </div>
+            `
+          : nothing}
+      </div>
+
+      ${this._error ? html`<div class="error">${this._error}</div>` : nothing}
+
+      ${this._step === "select-type"
+        ? this._renderStepType()
+        : this._step === "select-channels"
+          ? this._renderStepChannels()
+          : this._step === "edit"
+            ? this._renderStepEdit()
+            : this._renderStepResult()}
+    `;
+  }
+
+  private _renderStepType() {
+    const types = [...this._channelTypes.entries()];
+
+    return html`
+      <div class="step-indicator">${this._l("bulk_edit.step_type")}</div>
+      <div class="step-description">${this._l("bulk_edit.select_type")}</div>
+
+      <div class="radio-list">
+        ${types.length === 0
+          ? html`<div class="empty-state">${this._l("device_list.no_devices")}</div>`
+          : types.map(([channelType, count]) => {
+              const isSelected = this._selectedType === channelType;
+              return html`
+                <label class="radio-option ${isSelected ? "selected" : ""}">
+                  <input
+                    type="radio"
+                    name="channel-type"
+                    .checked=${isSelected}
+                    @change=${() => this._handleSelectType(channelType)}
+                  />
+                  <span class="radio-title">${channelType}</span>
+                  <span class="radio-count">
+                    ${this._l("bulk_edit.channel_count", { count })}
+                  </span>
+                </label>
+              `;
+            })}
+      </div>
+
+      <div class="wizard-actions">
+        <button
+          class="btn btn-primary"
+          ?disabled=${!this._selectedType}
+          @click=${this._handleNextToChannels}
+        >
+          ${this._l("add_link.next")} \u25B8
+        </button>
+      </div>
+    `;
+  }
+
+  private _renderStepChannels() {
+    return html`
+      <div class="step-indicator">${this._l("bulk_edit.step_channels")}</div>
+      <div class="step-description">${this._l("bulk_edit.select_channels")}</div>
+
+      <hm-channel-picker
+        .hass=${this.hass}
+        .candidates=${this._candidates}
+        .selected=${this._selectedChannels}
+        @selection-changed=${(e: CustomEvent) => {
+          this._selectedChannels = e.detail.selected;
+        }}
+      ></hm-channel-picker>
+
+      <div class="wizard-actions">
+        <button
+          class="btn btn-primary"
+          ?disabled=${this._selectedChannels.size === 0}
+          @click=${this._handleNextToEdit}
+        >
+          ${this._l("add_link.next")} \u25B8
+        </button>
+      </div>
+    `;
+  }
+
+  private _renderStepEdit() {
+    if (this._loading) {
+      return html`<div class="loading">${this._l("common.loading")}</div>`;
+    }
+    if (!this._schema) return nothing;
+
+    return html`
+      <div class="step-indicator">${this._l("bulk_edit.step_edit")}</div>
+      ${this._mixedParameters.size > 0
+        ? html`<div class="step-description">${this._l("bulk_edit.mixed_hint")}</div>`
+        : nothing}
+
+      <hm-config-form
+        .hass=${this.hass}
+        .schema=${this._schema}
+        .pendingChanges=${this._pendingChanges}
+        .mixedParameters=${this._mixedParameters}
+        @value-changed=${this._handleValueChanged}
+      ></hm-config-form>
+
+      <div class="action-bar">
+        <button
+          class="btn btn-secondary"
+          @click=${this._handleDiscard}
+          ?disabled=${!this._isDirty || this._saving}
+        >
+          ${this._l("channel_config.discard")}
+        </button>
+        <button
+          class="btn btn-primary"
+          @click=${this._handleSave}
+          ?disabled=${!this._isDirty || this._saving}
+        >
+          ${this._saving
+            ? this._l("channel_config.saving")
+            : this._l("bulk_edit.save_to", { channels: this._selectedChannels.size })}
+        </button>
+      </div>
+    `;
+  }
+
+  private _renderStepResult() {
+    return html`
+      <div class="step-indicator">${this._l("bulk_edit.step_result")}</div>
+
+      ${this._selectedRefs.map(({ device, channel }) => {
+        const result = this._results.get(channel.address);
+        return html`
+          <div class="result-row">
+            <div class="result-main">
+              <span>${device.name} (${device.model}) \u2014 ${channel.address}</span>
+              ${result
+                ? html`
+                    <span class="result-badge ${result.status}">
+                      ${this._l(`copy_config.result_${result.status}`)}
+                    </span>
+                  `
+                : nothing}
+            </div>
+            ${result?.validationErrors
+              ? Object.entries(result.validationErrors).map(
+                  ([param, message]) =>
+                    html`<div class="validation-error">${param}: ${message}</div>`
+                )
+              : nothing}
+            ${result?.error ? html`<div class="validation-error">${result.error}</div>` : nothing}
+          </div>
+        `;
+      })}
+
+      <div class="wizard-actions">
+        <button class="btn btn-primary" @click=${this._handleBack}>
+          ${this._l("copy_config.done")}
+        </button>
+      </div>
+    `;
+  }
+
+  static styles = [
+    sharedStyles,
+    css`
+      .bulk-header {
+        margin-bottom: 16px;
+      }
+
+      .bulk-header h2 {
+        margin: 8px 0 4px;
+        font-size: 20px;
+        font-weight: 400;
+      }
+
+      .step-indicator {
+        font-size: 13px;
+        color: var(--secondary-text-color);
+        margin-bottom: 4px;
+        font-weight: 500;
+      }
+
+      .step-description {
+        font-size: 14px;
+        margin-bottom: 16px;
+      }
+
+      .radio-list {
+        display: flex;
+        flex-direction: column;
+        gap: 6px;
+        max-height: 400px;
+        overflow-y: auto;
+      }
+
+      .radio-option {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        padding: 10px 12px;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 8px;
+        cursor: pointer;
+      }
+
+      .radio-option:hover,
+      .radio-option.selected {
+        border-color: var(--primary-color, #03a9f4);
+      }
+
+      .radio-title {
+        flex: 1;
+        font-size: 14px;
+        font-weight: 500;
+      }
+
+      .radio-count {
+        font-size: 12px;
+        color: var(--secondary-text-color);
+      }
+
+      .result-row {
+        padding: 10px 0;
+        border-bottom: 1px solid var(--divider-color, #e0e0e0);
+        font-size: 14px;
+      }
+
+      .result-main {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        gap: 8px;
+      }
+
+      .result-badge {
+        font-size: 11px;
+        padding: 2px 8px;
+        border-radius: 12px;
+        color: #fff;
+        text-transform: uppercase;
+        flex-shrink: 0;
+        background: var(--secondary-text-color, #888);
+      }
+
+      .result-badge.success {
+        background: var(--success-color, #43a047);
+      }
+
+      .result-badge.validation_failed,
+      .result-badge.failed {
+        background: var(--error-color, #db4437);
+      }
+
+      .wizard-actions {
+        display: flex;
+        justify-content: flex-end;
+        margin-top: 16px;
+        padding-top: 16px;
+        border-top: 1px solid var(--divider-color, #e0e0e0);
+      }
+
+      .btn {
+        padding: 8px 20px;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 14px;
+        font-family: inherit;
+        border: 1px solid transparent;
+      }
+
+      .btn:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      .btn-primary {
+        background: var(--primary-color, #03a9f4);
+        color: #fff;
+        border-color: var(--primary-color, #03a9f4);
+      }
+
+      .btn-primary:hover:not(:disabled) {
+        opacity: 0.9;
+      }
+
+      .btn-secondary {
+        background: transparent;
+        color: var(--primary-text-color);
+        border-color: var(--divider-color, #e0e0e0);
+      }
+
+      .btn-secondary:hover:not(:disabled) {
+        background: var(--secondary-background-color, #f5f5f5);
+      }
+
+      @media (max-width: 600px) {
+        .result-main {
+          flex-direction: column;
+          align-items: flex-start;
+        }
+      }
+    `,
+  ];
+}
@@ -2,30 +2,82 @@ import { LitElement, html, css, nothing } from "lit";
 import { property, state } from "lit/decorators.js";
 import { safeCustomElement } from "../safe-element";
 import { sharedStyles } from "../styles";
-import { getChangeHistory, clearChangeHistory } from "../api";
+import {
+  listDevices,
+  getChangeHistory,
+  clearChangeHistory,
+  getParamset,
+  putParamset,
+  getLinkParamset,
+  putLinkParamset,
+} from "../api";
+import { downloadFile, toCsv } from "../file-helpers";
 import { localize } from "../localize";
 import { showConfirmationDialog, showToast } from "../ha-helpers";
-import type { HomeAssistant, HistoryEntry } from "../types";
+import { valuesEqual } from "../paramset-diff";
+import type { HomeAssistant, HistoryEntry, HistoryFilters } from "../types";
+
+const HISTORY_PAGE_SIZE = 50;
+const EXPORT_PAGE_SIZE = 500;
+
+const CSV_HEADER = [
+  "timestamp",
+  "device_name",
+  "device_model",
+  "interface_id",
+  "channel_address",
+  "peer_address",
+  "paramset_key",
+  "parameter",
+  "old",
+  "new",
+  "source",
+];
 
 @safeCustomElement("hm-change-history")
 export class HmChangeHistory extends LitElement {
   @property({ attribute: false }) public hass!: HomeAssistant;
   @property() public entryId = "";
   @property() public filterDevice = "";
+  /** Filter state as stored in the URL hash (source, since, until, model, iface, param, q). */
+  @property({ attribute: false }) public filters: Record<string, string> = {};
 
   @state() private _entries: HistoryEntry[] = [];
   @state() private _total = 0;
   @state() private _loading = true;
+  @state() private _loadingMore = false;
+  @state() private _exporting = false;
+  @state() private _models: string[] = [];
+  @state() private _interfaceIds: string[] = [];
   @state() private _error = "";
   @state() private _expandedEntries: Set<string> = new Set();
+  @state() private _reverting = false;
 
   updated(changedProps: Map<string, unknown>): void {
     if (
-      (changedProps.has("entryId") || changedProps.has("filterDevice")) &&
+      (changedProps.has("entryId") ||
+        changedProps.has("filterDevice") ||
+        changedProps.has("filters")) &&
       this.entryId
     ) {
       this._fetchHistory();
     }
+    if (changedProps.has("entryId") && this.entryId) {
+      this._fetchFilterOptions();
+    }
+  }
+
+  private get _apiFilters(): HistoryFilters {
+    const f = this.filters;
+    return {
+      source: f.source as HistoryEntry["source"] | undefined,
+      since: f.since ? new Date(`${f.since}T00:00:00`).toISOString() : undefined,
+      until: f.until ? new Date(`${f.until}T23:59:59.999`).toISOString() : undefined,
+      device_model: f.model,
+      interface_id: f.iface,
+      parameter: f.param,
+      search: f.q,
+    };
   }
 
   private async _fetchHistory(): Promise<void> {
@@ -35,7 +87,10 @@ export class HmChangeHistory extends LitElement {
       const result = await getChangeHistory(
         this.hass,
         this.entryId,
-        this.filterDevice
+        this.filterDevice,
+        HISTORY_PAGE_SIZE,
+        0,
+        this._apiFilters
       );
       this._entries = result.entries;
       this._total = result.total;
@@ -46,6 +101,57 @@ export class HmChangeHistory extends LitElement {
     }
   }
 
+  private async _handleLoadMore(): Promise<void> {
+    if (this._loadingMore) return;
+    this._loadingMore = true;
+    try {
+      const result = await getChangeHistory(
+        this.hass,
+        this.entryId,
+        this.filterDevice,
+        HISTORY_PAGE_SIZE,
+        this._entries.length,
+        this._apiFilters
+      );
+      this._entries = [...this._entries, ...result.entries];
+      this._total = result.total;
+    } catch (err) {
+      this._error = String(err);
+    } finally {
+      this._loadingMore = false;
+    }
+  }
+
+  private async _fetchFilterOptions(): Promise<void> {
+    try {
+      const devices = await listDevices(this.hass, this.entryId);
+      this._models = [...new Set(devices.map((d) => d.model))].sort();
+      this._interfaceIds = [...new Set(devices.map((d) => d.interface_id))].sort();
+    } catch {
+      /* filter options are optional */
+    }
+  }
+
+  private _setFilter(key: string, value: string): void {
+    const next = { ...this.filters };
+    if (value) {
+      next[key] = value;
+    } else {
+      delete next[key];
+    }
+    this._emitFilters(next);
+  }
+
+  private _emitFilters(filters: Record<string, string>): void {
+    this.dispatchEvent(
+      new CustomEvent("filters-changed", {
+        detail: { filters },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
   private _l(key: string, params?: Record<string, string | number>): string {
     return localize(this.hass, key, params);
   }
@@ -64,6 +170,64 @@ export class HmChangeHistory extends LitElement {
     this._expandedEntries = next;
   }
 
+  /** Fetch every entry matching the current filters, page by page. */
+  private async _fetchAllEntries(): Promise<HistoryEntry[]> {
+    const filters = this._apiFilters;
+    const entries: HistoryEntry[] = [];
+    for (;;) {
+      const result = await getChangeHistory(
+        this.hass,
+        this.entryId,
+        this.filterDevice,
+        EXPORT_PAGE_SIZE,
+        entries.length,
+        filters
+      );
+      entries.push(...result.entries);
+      if (result.entries.length === 0 || entries.length >= result.total) return entries;
+    }
+  }
+
+  private async _handleExport(format: "csv" | "json"): Promise<void> {
+    if (this._exporting) return;
+    this._exporting = true;
+    try {
+      const entries = await this._fetchAllEntries();
+      const date = new Date().toISOString().slice(0, 10);
+      if (format === "json") {
+        downloadFile(`homematic_history_${date}.json`, JSON.stringify(entries, null, 2));
+      } else {
+        const rows = entries.flatMap((entry) =>
+          Object.entries(entry.changes).map(([parameter, change]) => [
+            entry.timestamp,
+            entry.device_name,
+            entry.device_model,
+            entry.interface_id,
+            entry.channel_address,
+            entry.peer_address,
+            entry.paramset_key,
+            parameter,
+            change.old,
+            change.new,
+            entry.source,
+          ])
+        );
+        downloadFile(
+          `homematic_history_${date}.csv`,
+          toCsv([CSV_HEADER, ...rows]),
+          "text/csv"
+        );
+      }
+      showToast(this, {
+        message: this._l("change_history.export_success", { count: entries.length }),
+      });
+    } catch {
+      showToast(this, { message: this._l("change_history.export_failed") });
+    } finally {
+      this._exporting = false;
+    }
+  }
+
   private async _handleClear(): Promise<void> {
     const confirmed = await showConfirmationDialog(this, {
       title: this._l("change_history.clear_confirm_title"),
@@ -88,6 +252,103 @@ export class HmChangeHistory extends LitElement {
     }
   }
 
+  /**
+   * Write the old values of the given parameters back to the channel.
+   * Parameters whose current value no longer matches the recorded new value
+   * were changed again since; they are listed as conflicts before writing.
+   */
+  /** Link entries can only be written back when they name the peer of the link. */
+  private _canRevert(entry: HistoryEntry): boolean {
+    return entry.paramset_key !== "LINK" || Boolean(entry.peer_address);
+  }
+
+  private async _handleRevert(entry: HistoryEntry, parameters: string[]): Promise<void> {
+    if (this._reverting || parameters.length === 0 || !this._canRevert(entry)) return;
+    this._reverting = true;
+    const isLink = entry.paramset_key === "LINK" && Boolean(entry.peer_address);
+    try {
+      const current = isLink
+        ? await getLinkParamset(
+            this.hass,
+            this.entryId,
+            entry.interface_id,
+            entry.channel_address,
+            entry.peer_address!
+          )
+        : await getParamset(
+            this.hass,
+            this.entryId,
+            entry.interface_id,
+            entry.channel_address,
+            entry.paramset_key
+          );
+      const conflicts = parameters.filter(
+        (param) => !valuesEqual(current[param], entry.changes[param].new)
+      );
+      const summary = parameters
+        .map(
+          (param) =>
+            `${param}: ${String(current[param])} \u2192 ${String(entry.changes[param].old)}`
+        )
+        .join("\n");
+      const conflictText = conflicts.length
+        ? `\n\n${this._l("change_history.revert_conflicts", {
+            parameters: conflicts.join(", "),
+          })}`
+        : "";
+
+      const confirmed = await showConfirmationDialog(this, {
+        title: this._l("change_history.revert_confirm_title"),
+        text: `${this._l("change_history.revert_confirm_text", {
+          count: parameters.length,
+          channel: isLink
+            ? `${entry.channel_address} \u2192 ${entry.peer_address}`
+            : entry.channel_address,
+        })}\n\n${summary}${conflictText}`,
+        confirmText: conflicts.length
+          ? this._l("change_history.revert_anyway")
+          : this._l("change_history.revert"),
+        dismissText: this._l("common.cancel"),
+        destructive: conflicts.length > 0,
+      });
+      if (!confirmed) return;
+
+      const values = Object.fromEntries(
+        parameters.map((param) => [param, entry.changes[param].old])
+      );
+      const result = isLink
+        ? await putLinkParamset(
+            this.hass,
+            this.entryId,
+            entry.interface_id,
+            entry.channel_address,
+            entry.peer_address!,
+            values,
+            "revert"
+          )
+        : await putParamset(
+            this.hass,
+            this.entryId,
+            entry.interface_id,
+            entry.channel_address,
+            values,
+            entry.paramset_key,
+            true,
+            "revert"
+          );
+      if (result.success) {
+        showToast(this, { message: this._l("change_history.revert_success") });
+        await this._fetchHistory();
+      } else {
+        showToast(this, { message: this._l("channel_config.validation_failed") });
+      }
+    } catch {
+      showToast(this, { message: this._l("change_history.revert_failed") });
+    } finally {
+      this._reverting = false;
+    }
+  }
+
   private _formatTimestamp(ts: string): string {
     try {
       const date = new Date(ts);
@@ -105,6 +366,8 @@ export class HmChangeHistory extends LitElement {
         return this._l("change_history.source_import");
       case "copy":
         return this._l("change_history.source_copy");
+      case "revert":
+        return this._l("change_history.source_revert");
       default:
         return source;
     }
@@ -120,6 +383,8 @@ export class HmChangeHistory extends LitElement {
         <h2>${this._l("change_history.title")}</h2>
       </div>
 
+      ${this._renderFilters()}
+
       ${this._loading
         ? html`<div class="loading">${this._l("common.loading")}</div>`
         : this._error
@@ -130,7 +395,42 @@ export class HmChangeHistory extends LitElement {
 
       ${!this._loading && this._entries.length > 0
         ? html`
+            <div class="paging-bar">
+              <span>
+                ${this._l("change_history.showing", {
+                  shown: this._entries.length,
+                  total: this._total,
+                })}
+              </span>
+              ${this._entries.length < this._total
+                ? html`
+                    <button
+                      class="btn btn-secondary"
+                      ?disabled=${this._loadingMore}
+                      @click=${this._handleLoadMore}
+                    >
+                      ${this._loadingMore
+                        ? this._l("common.loading")
+                        : this._l("change_history.load_more")}
+                    </button>
+                  `
+                : nothing}
+            </div>
             <div class="action-bar">
+              <button
+                class="btn btn-secondary"
+                ?disabled=${this._exporting}
+                @click=${() => this._handleExport("csv")}
+              >
+                ${this._l("change_history.export_csv")}
+              </button>
+              <button
+                class="btn btn-secondary"
+                ?disabled=${this._exporting}
+                @click=${() => this._handleExport("json")}
+              >
+                ${this._l("change_history.export_json")}
+              </button>
               <button class="btn btn-secondary destructive" @click=${this._handleClear}>
                 ${this._l("change_history.clear")}
               </button>
@@ -140,6 +440,83 @@ export class HmChangeHistory extends LitElement {
     `;
   }
 
+  private _renderFilters() {
+    const f = this.filters;
+    const hasFilters = Object.keys(f).length > 0;
+
+    return html`
+      <div class="filter-bar">
+        <input
+          class="filter-search"
+          type="search"
+          .value=${f.q ?? ""}
+          placeholder=${this._l("change_history.search_placeholder")}
+          @change=${(e: Event) => this._setFilter("q", (e.target as HTMLInputElement).value)}
+        />
+        <select
+          @change=${(e: Event) => this._setFilter("source", (e.target as HTMLSelectElement).value)}
+        >
+          <option value="" ?selected=${!f.source}>${this._l("change_history.all_sources")}</option>
+          ${(["manual", "import", "copy", "revert"] as const).map(
+            (source) => html`
+              <option value=${source} ?selected=${f.source === source}>
+                ${this._getSourceLabel(source)}
+              </option>
+            `
+          )}
+        </select>
+        <select
+          @change=${(e: Event) => this._setFilter("model", (e.target as HTMLSelectElement).value)}
+        >
+          <option value="" ?selected=${!f.model}>${this._l("change_history.all_models")}</option>
+          ${this._models.map(
+            (model) => html`<option value=${model} ?selected=${f.model === model}>${model}</option>`
+          )}
+        </select>
+        <select
+          @change=${(e: Event) => this._setFilter("iface", (e.target as HTMLSelectElement).value)}
+        >
+          <option value="" ?selected=${!f.iface}>
+            ${this._l("change_history.all_interfaces")}
+          </option>
+          ${this._interfaceIds.map(
+            (iface) => html`<option value=${iface} ?selected=${f.iface === iface}>${iface}</option>`
+          )}
+        </select>
+        <input
+          type="text"
+          .value=${f.param ?? ""}
+          placeholder=${this._l("change_history.parameter_placeholder")}
+          @change=${(e: Event) =>
+            this._setFilter("param", (e.target as HTMLInputElement).value.trim().toUpperCase())}
+        />
+        <label class="filter-date">
+          ${this._l("change_history.since")}
+          <input
+            type="date"
+            .value=${f.since ?? ""}
+            @change=${(e: Event) => this._setFilter("since", (e.target as HTMLInputElement).value)}
+          />
+        </label>
+        <label class="filter-date">
+          ${this._l("change_history.until")}
+          <input
+            type="date"
+            .value=${f.until ?? ""}
+            @change=${(e: Event) => this._setFilter("until", (e.target as HTMLInputElement).value)}
+          />
+        </label>
+        ${hasFilters
+          ? html`
+              <button class="link-button" @click=${() => this._emitFilters({})}>
+                ${this._l("change_history.reset_filters")}
+              </button>
+            `
+          : nothing}
+      </div>
+    `;
+  }
+
   private _renderEntries() {
     return html`
       <div class="history-list">
@@ -161,6 +538,7 @@ export class HmChangeHistory extends LitElement {
                   <div class="history-entry-device">
                     ${entry.device_name} (${entry.device_model})
                     \u2014 ${entry.channel_address}
+                    ${entry.peer_address ? html`\u2192 ${entry.peer_address}` : nothing}
                   </div>
                   <div class="history-entry-meta">
                     ${this._l("change_history.parameters_changed", { count: changeCount })}
@@ -182,10 +560,36 @@ export class HmChangeHistory extends LitElement {
                               <span class="change-old">${String(change.old)}</span>
                               \u2192
                               <span class="change-new">${String(change.new)}</span>
+                              ${this._canRevert(entry)
+                                ? html`
+                                    <button
+                                      class="revert-param-button"
+                                      title=${this._l("change_history.revert_parameter")}
+                                      ?disabled=${this._reverting}
+                                      @click=${() => this._handleRevert(entry, [param])}
+                                    >
+                                      &#x21A9;
+                                    </button>
+                                  `
+                                : nothing}
                             </span>
                           </div>
                         `
                       )}
+                      ${this._canRevert(entry)
+                        ? html`
+                            <div class="history-details-actions">
+                              <button
+                                class="btn btn-secondary"
+                                ?disabled=${this._reverting}
+                                @click=${() =>
+                                  this._handleRevert(entry, Object.keys(entry.changes))}
+                              >
+                                &#x21A9; ${this._l("change_history.revert")}
+                              </button>
+                            </div>
+                          `
+                        : nothing}
                     </div>
                   `
                 : nothing}
@@ -209,6 +613,60 @@ export class HmChangeHistory extends LitElement {
         font-weight: 400;
       }
 
+      .filter-bar {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 8px;
+        margin-bottom: 16px;
+      }
+
+      .filter-bar input,
+      .filter-bar select {
+        padding: 6px 8px;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 4px;
+        font-size: 13px;
+        font-family: inherit;
+        background: var(--card-background-color, #fff);
+        color: var(--primary-text-color);
+      }
+
+      .filter-search {
+        flex: 1 1 200px;
+      }
+
+      .filter-date {
+        display: inline-flex;
+        align-items: center;
+        gap: 4px;
+        font-size: 13px;
+        color: var(--secondary-text-color);
+      }
+
+      .link-button {
+        background: none;
+        border: none;
+        color: var(--primary-color, #03a9f4);
+        cursor: pointer;
+        font-size: 13px;
+        font-family: inherit;
+      }
+
+      .link-button:hover {
+        text-decoration: underline;
+      }
+
+      .paging-bar {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        gap: 8px;
+        padding: 12px 0 0;
+        font-size: 13px;
+        color: var(--secondary-text-color);
+      }
+
       .history-list {
         display: flex;
         flex-direction: column;
@@ -312,6 +770,27 @@ export class HmChangeHistory extends LitElement {
         font-weight: 500;
       }
 
+      .revert-param-button {
+        background: none;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 4px;
+        padding: 0 6px;
+        margin-left: 6px;
+        cursor: pointer;
+        font-size: 13px;
+        color: var(--primary-text-color);
+      }
+
+      .revert-param-button:hover:not(:disabled) {
+        background: var(--secondary-background-color, #f5f5f5);
+      }
+
+      .history-details-actions {
+        display: flex;
+        justify-content: flex-end;
+        padding-top: 8px;
+      }
+
       .btn {
         padding: 8px 20px;
         border-radius: 4px;
@@ -321,13 +800,18 @@ export class HmChangeHistory extends LitElement {
         border: 1px solid transparent;
       }
 
+      .btn:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
       .btn-secondary {
         background: transparent;
         color: var(--primary-text-color);
         border-color: var(--divider-color, #e0e0e0);
       }
 
-      .btn-secondary:hover {
+      .btn-secondary:hover:not(:disabled) {
         background: var(--secondary-background-color, #f5f5f5);
       }
 
@@ -342,6 +826,13 @@ export class HmChangeHistory extends LitElement {
       }
 
       @media (max-width: 600px) {
+        .filter-bar input,
+        .filter-bar select,
+        .filter-date {
+          width: 100%;
+          box-sizing: border-box;
+        }
+
         .history-entry-header {
           flex-direction: column;
           align-items: flex-start;
@@ -3,6 +3,7 @@ import { property, state } from "lit/decorators.js";
 import { safeCustomElement } from "../safe-element";
 import { sharedStyles } from "../styles";
 import {
+  listDevices,
   getFormSchema,
   putParamset,
   sessionOpen,
@@ -14,8 +15,12 @@ import {
 } from "../api";
 import { localize } from "../localize";
 import { showConfirmationDialog, showToast } from "../ha-helpers";
+import { valuesEqual } from "../paramset-diff";
+import { deviceAddressOf } from "../device-utils";
+import { enqueueWrite, isBatteryDevice } from "../write-queue";
 import "../components/config-form";
-import type { HomeAssistant, FormSchema } from "../types";
+import "../components/preset-picker";
+import type { HomeAssistant, DeviceInfo, FormSchema } from "../types";
 
 @safeCustomElement("hm-channel-config")
 export class HmChannelConfig extends LitElement {
@@ -33,6 +38,8 @@ export class HmChannelConfig extends LitElement {
   @state() private _saving = false;
   @state() private _error = "";
   @state() private _validationErrors: Record<string, string> = {};
+  /** Device of the channel, used to scope presets and to queue writes to battery devices. */
+  @state() private _device: DeviceInfo | null = null;
 
   // Session state
   @state() private _sessionActive = false;
@@ -46,6 +53,18 @@ export class HmChannelConfig extends LitElement {
       this.channelAddress
     ) {
       this._fetchSchema();
+      this._fetchDevice();
+    }
+  }
+
+  private async _fetchDevice(): Promise<void> {
+    this._device = null;
+    try {
+      const address = deviceAddressOf(this.channelAddress);
+      const devices = await listDevices(this.hass, this.entryId);
+      this._device = devices.find((d) => d.address === address) ?? null;
+    } catch {
+      /* presets fall back to the channel type only, writes are not queued */
     }
   }
 
@@ -100,9 +119,34 @@ export class HmChannelConfig extends LitElement {
     }
     this._pendingChanges = new Map(this._pendingChanges);
 
-    // Server session sync
-    if (this._sessionActive) {
-      try {
+    await this._syncSession({ [parameterId]: value });
+  }
+
+  private async _handlePresetApplied(e: CustomEvent): Promise<void> {
+    const values = e.detail.values as Record<string, unknown>;
+    const next = new Map(this._pendingChanges);
+    const changed: Record<string, unknown> = {};
+    for (const [parameterId, value] of Object.entries(values)) {
+      const current = this._findParameter(parameterId)?.current_value;
+      const effective = next.has(parameterId) ? next.get(parameterId) : current;
+      if (valuesEqual(value, effective)) continue;
+      changed[parameterId] = value;
+      if (valuesEqual(value, current)) {
+        next.delete(parameterId);
+      } else {
+        next.set(parameterId, value);
+      }
+    }
+    this._pendingChanges = next;
+
+    await this._syncSession(changed);
+  }
+
+  /** Mirror local edits into the server session, one parameter at a time. */
+  private async _syncSession(values: Record<string, unknown>): Promise<void> {
+    if (!this._sessionActive) return;
+    try {
+      for (const [parameterId, value] of Object.entries(values)) {
         const state = await sessionSet(
           this.hass,
           this.entryId,
@@ -114,9 +158,9 @@ export class HmChannelConfig extends LitElement {
         this._canUndo = state.can_undo;
         this._canRedo = state.can_redo;
         this._validationErrors = state.validation_errors;
-      } catch {
-        /* session sync is best-effort */
       }
+    } catch {
+      /* session sync is best-effort */
     }
   }
 
@@ -234,6 +278,10 @@ export class HmChannelConfig extends LitElement {
 
     this._saving = true;
     this._validationErrors = {};
+    const values = Object.fromEntries(this._pendingChanges);
+    const previous = Object.fromEntries(
+      [...this._pendingChanges.keys()].map((key) => [key, this._findParameter(key)?.current_value])
+    );
 
     try {
       if (this._sessionActive) {
@@ -248,7 +296,7 @@ export class HmChannelConfig extends LitElement {
         if (result.success) {
           this._pendingChanges = new Map();
           this._sessionActive = false;
-          showToast(this, { message: this._l("channel_config.save_success") });
+          this._handleSaved(values, previous);
           await this._fetchSchema(); // Reopens session
         } else if (Object.keys(result.validation_errors).length > 0) {
           this._validationErrors = result.validation_errors;
@@ -256,18 +304,17 @@ export class HmChannelConfig extends LitElement {
         }
       } else {
         // Fallback to direct put
-        const changes = Object.fromEntries(this._pendingChanges);
         const result = await putParamset(
           this.hass,
           this.entryId,
           this.interfaceId,
           this.channelAddress,
-          changes,
+          values,
           this.paramsetKey
         );
         if (result.success) {
           this._pendingChanges = new Map();
-          showToast(this, { message: this._l("channel_config.save_success") });
+          this._handleSaved(values, previous);
           await this._fetchSchema();
         } else if (Object.keys(result.validation_errors).length > 0) {
           this._validationErrors = result.validation_errors;
@@ -282,6 +329,16 @@ export class HmChannelConfig extends LitElement {
     }
   }
 
+  /** Confirm a save; MASTER writes to battery devices are tracked in the write queue. */
+  private _handleSaved(values: Record<string, unknown>, previous: Record<string, unknown>): void {
+    if (this.paramsetKey !== "MASTER" || !this._device || !isBatteryDevice(this._device)) {
+      showToast(this, { message: this._l("channel_config.save_success") });
+      return;
+    }
+    enqueueWrite(this.entryId, this._device, this.channelAddress, values, previous);
+    showToast(this, { message: this._l("channel_config.save_queued") });
+  }
+
   private _findParameter(parameterId: string) {
     if (!this._schema) return undefined;
     for (const section of this._schema.sections) {
@@ -338,6 +395,20 @@ export class HmChannelConfig extends LitElement {
 
       ${this._error ? html`<div class="error">${this._error}</div>` : nothing}
 
+      ${this._schema && this.paramsetKey === "MASTER"
+        ? html`
+            <hm-preset-picker
+              .hass=${this.hass}
+              .schema=${this._schema}
+              .pendingChanges=${this._pendingChanges}
+              .channelType=${this._schema.channel_type}
+              .model=${this._device?.model ?? ""}
+              ?disabled=${this._saving}
+              @preset-applied=${this._handlePresetApplied}
+            ></hm-preset-picker>
+          `
+        : nothing}
+
       ${this._schema
         ? html`
             <hm-config-form
@@ -0,0 +1,678 @@
+import { LitElement, html, css, nothing } from "lit";
+import { property, state } from "lit/decorators.js";
+import { safeCustomElement } from "../safe-element";
+import { sharedStyles } from "../styles";
+import { listDevices } from "../api";
+import { localize } from "../localize";
+import { showConfirmationDialog, showToast } from "../ha-helpers";
+import { downloadFile, pickTextFile } from "../file-helpers";
+import {
+  createBackup,
+  parseBackup,
+  backupFilename,
+  planRestore,
+  applyRestoreItem,
+} from "../backup";
+import { formatValue } from "../paramset-diff";
+import type { BackupArchive, BackupError, DeviceRestorePlan, RestoreItem } from "../backup";
+import type { HomeAssistant, DeviceInfo } from "../types";
+
+interface Progress {
+  done: number;
+  total: number;
+}
+
+@safeCustomElement("hm-config-backup")
+export class HmConfigBackup extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+  @property() public entryId = "";
+  @property() public deviceAddress = "";
+
+  @state() private _devices: DeviceInfo[] = [];
+  @state() private _loading = true;
+  @state() private _error = "";
+  @state() private _backupProgress: Progress | null = null;
+  /** Parts the last backup could not read. */
+  @state() private _backupErrors: BackupError[] = [];
+  @state() private _archive: BackupArchive | null = null;
+  @state() private _planProgress: Progress | null = null;
+  @state() private _plans: DeviceRestorePlan[] = [];
+  @state() private _selected: Set<string> = new Set();
+  @state() private _expanded: Set<string> = new Set();
+  @state() private _itemResults: Map<string, boolean> = new Map();
+  @state() private _restoring = false;
+
+  updated(changedProps: Map<string, unknown>): void {
+    if (
+      (changedProps.has("entryId") || changedProps.has("deviceAddress")) &&
+      this.entryId
+    ) {
+      this._fetchDevices();
+    }
+  }
+
+  private async _fetchDevices(): Promise<void> {
+    this._loading = true;
+    this._error = "";
+    this._archive = null;
+    this._plans = [];
+    try {
+      this._devices = await listDevices(this.hass, this.entryId);
+    } catch (err) {
+      this._error = String(err);
+    } finally {
+      this._loading = false;
+    }
+  }
+
+  private _l(key: string, params?: Record<string, string | number>): string {
+    return localize(this.hass, key, params);
+  }
+
+  private get _scopedDevices(): DeviceInfo[] {
+    if (!this.deviceAddress) return this._devices;
+    return this._devices.filter((d) => d.address === this.deviceAddress);
+  }
+
+  private _handleBack(): void {
+    this.dispatchEvent(new CustomEvent("back", { bubbles: true, composed: true }));
+  }
+
+  private async _handleBackup(): Promise<void> {
+    if (this._backupProgress) return;
+    const devices = this._scopedDevices;
+    this._backupProgress = { done: 0, total: devices.length };
+    this._backupErrors = [];
+    try {
+      const archive = await createBackup(this.hass, this.entryId, devices, (done, total) => {
+        this._backupProgress = { done, total };
+      });
+      downloadFile(
+        backupFilename(this.deviceAddress || undefined),
+        JSON.stringify(archive, null, 2)
+      );
+      this._backupErrors = archive.errors ?? [];
+      showToast(this, {
+        message: this._l(
+          this._backupErrors.length
+            ? "config_backup.backup_partial"
+            : "config_backup.backup_success",
+          {
+            devices: archive.devices.length,
+            links: archive.links.length,
+            errors: this._backupErrors.length,
+          }
+        ),
+      });
+    } catch {
+      showToast(this, { message: this._l("config_backup.backup_failed") });
+    } finally {
+      this._backupProgress = null;
+    }
+  }
+
+  private async _handleLoadArchive(): Promise<void> {
+    let archive: BackupArchive;
+    try {
+      const text = await pickTextFile(".json");
+      if (text === null) return;
+      archive = parseBackup(text);
+    } catch (err) {
+      showToast(this, {
+        message: this._l("config_backup.invalid_file", { error: String(err) }),
+      });
+      return;
+    }
+    if (this.deviceAddress) {
+      archive = {
+        ...archive,
+        devices: archive.devices.filter((d) => d.address === this.deviceAddress),
+      };
+    }
+    this._archive = archive;
+    this._plans = [];
+    this._selected = new Set();
+    this._itemResults = new Map();
+    this._planProgress = { done: 0, total: archive.devices.length };
+    try {
+      this._plans = await planRestore(
+        this.hass,
+        this.entryId,
+        archive,
+        this._devices,
+        (done, total) => {
+          this._planProgress = { done, total };
+        }
+      );
+      this._selected = new Set(
+        this._plans.flatMap((plan) =>
+          plan.items
+            .filter((item) => !item.error)
+            .map((item) => this._itemKey(plan, item))
+        )
+      );
+    } catch (err) {
+      this._error = String(err);
+    } finally {
+      this._planProgress = null;
+    }
+  }
+
+  private _itemKey(plan: DeviceRestorePlan, item: RestoreItem): string {
+    return `${plan.archived.address}::${item.key}`;
+  }
+
+  private _toggleItem(key: string): void {
+    const next = new Set(this._selected);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    this._selected = next;
+  }
+
+  private _toggleDevice(plan: DeviceRestorePlan, checked: boolean): void {
+    const next = new Set(this._selected);
+    for (const item of plan.items) {
+      if (item.error) continue;
+      const key = this._itemKey(plan, item);
+      if (checked) {
+        next.add(key);
+      } else {
+        next.delete(key);
+      }
+    }
+    this._selected = next;
+  }
+
+  private _toggleExpanded(address: string): void {
+    const next = new Set(this._expanded);
+    if (next.has(address)) {
+      next.delete(address);
+    } else {
+      next.add(address);
+    }
+    this._expanded = next;
+  }
+
+  private async _handleRestore(): Promise<void> {
+    if (this._selected.size === 0 || this._restoring) return;
+    const confirmed = await showConfirmationDialog(this, {
+      title: this._l("config_backup.restore_confirm_title"),
+      text: this._l("config_backup.restore_confirm_text", { count: this._selected.size }),
+      confirmText: this._l("config_backup.restore"),
+      dismissText: this._l("common.cancel"),
+      destructive: true,
+    });
+    if (!confirmed) return;
+
+    this._restoring = true;
+    this._itemResults = new Map();
+    let failed = 0;
+    for (const plan of this._plans) {
+      for (const item of plan.items) {
+        const key = this._itemKey(plan, item);
+        if (!this._selected.has(key)) continue;
+        let success = false;
+        try {
+          success = await applyRestoreItem(this.hass, this.entryId, plan, item);
+        } catch {
+          success = false;
+        }
+        if (!success) failed++;
+        this._itemResults = new Map(this._itemResults).set(key, success);
+      }
+    }
+    this._restoring = false;
+    showToast(this, {
+      message: failed
+        ? this._l("config_backup.restore_partial", { failed })
+        : this._l("config_backup.restore_success"),
+    });
+  }
+
+  render() {
+    if (this._loading) {
+      return html`<div class="loading">${this._l("common.loading")}</div>`;
+    }
+    if (this._error) {
+      return html`<div class="error">${this._error}</div>`;
+    }
+
+    const scopeDevice = this._scopedDevices[0];
+
+    return html`
+      <button class="back-button" @click=${this._handleBack}>
+        \u25C2 ${this._l("common.back")}
+      </button>
+
+      <div class="backup-header">
+        <h2>${this._l("config_backup.title")}</h2>
+        <div class="device-info">
+          ${this.deviceAddress
+            ? this._l("config_backup.scope_device", {
+                device: scopeDevice?.name || this.deviceAddress,
+              })
+            : this._l("config_backup.scope_all", { count: this._devices.length })}
+        </div>
+      </div>
+
+      <div class="backup-card">
+        <div class="backup-card-header">${this._l("config_backup.backup_title")}</div>
+        <div class="backup-card-content">
+          <p>${this._l("config_backup.backup_description")}</p>
+          ${this._backupProgress
+            ? this._renderProgress("config_backup.backup_progress", this._backupProgress)
+            : nothing}
+          <button
+            class="btn btn-primary"
+            ?disabled=${this._backupProgress !== null || this._scopedDevices.length === 0}
+            @click=${this._handleBackup}
+          >
+            ${this._l("config_backup.create_backup")}
+          </button>
+          ${this._backupErrors.length > 0
+            ? html`
+                <div class="plan-warning">
+                  ${this._l("config_backup.backup_errors", { count: this._backupErrors.length })}
+                  <ul class="error-list">
+                    ${this._backupErrors.map(
+                      (e) => html`<li><code>${e.address}</code>: ${e.error}</li>`
+                    )}
+                  </ul>
+                </div>
+              `
+            : nothing}
+        </div>
+      </div>
+
+      <div class="backup-card">
+        <div class="backup-card-header">${this._l("config_backup.restore_title")}</div>
+        <div class="backup-card-content">
+          <p>${this._l("config_backup.restore_description")}</p>
+          <button
+            class="btn btn-secondary"
+            ?disabled=${this._planProgress !== null || this._restoring}
+            @click=${this._handleLoadArchive}
+          >
+            ${this._l("config_backup.load_file")}
+          </button>
+          ${this._archive
+            ? html`
+                <div class="archive-info">
+                  ${this._l("config_backup.archive_info", {
+                    date: new Date(this._archive.created_at).toLocaleString(
+                      this.hass.config.language || "en"
+                    ),
+                    devices: this._archive.devices.length,
+                    links: this._archive.links.length,
+                  })}
+                </div>
+              `
+            : nothing}
+          ${this._planProgress
+            ? this._renderProgress("config_backup.plan_progress", this._planProgress)
+            : this._archive
+              ? this._renderPlans()
+              : nothing}
+        </div>
+      </div>
+    `;
+  }
+
+  private _renderProgress(key: string, progress: Progress) {
+    return html`
+      <div class="progress">
+        <progress max=${progress.total} .value=${progress.done}></progress>
+        <span>${this._l(key, { done: progress.done, total: progress.total })}</span>
+      </div>
+    `;
+  }
+
+  private _renderPlans() {
+    const changed = this._plans.filter((plan) => plan.items.length > 0);
+    const missing = this._plans.filter((plan) => !plan.live);
+
+    return html`
+      ${missing.length > 0
+        ? html`
+            <div class="plan-warning">
+              ${this._l("config_backup.devices_missing", {
+                devices: missing.map((p) => p.archived.name || p.archived.address).join(", "),
+              })}
+            </div>
+          `
+        : nothing}
+      ${changed.length === 0
+        ? html`<div class="empty-state">${this._l("config_backup.nothing_to_restore")}</div>`
+        : html`
+            <div class="plan-list">${changed.map((plan) => this._renderDevicePlan(plan))}</div>
+            <div class="action-bar">
+              <button
+                class="btn btn-primary"
+                ?disabled=${this._selected.size === 0 || this._restoring}
+                @click=${this._handleRestore}
+              >
+                ${this._restoring
+                  ? this._l("config_backup.restoring")
+                  : this._l("config_backup.restore_selected", { count: this._selected.size })}
+              </button>
+            </div>
+          `}
+    `;
+  }
+
+  private _renderDevicePlan(plan: DeviceRestorePlan) {
+    const address = plan.archived.address;
+    const selectable = plan.items.filter((item) => !item.error);
+    const selectedCount = selectable.filter((item) =>
+      this._selected.has(this._itemKey(plan, item))
+    ).length;
+    const isExpanded = this._expanded.has(address);
+
+    return html`
+      <div class="plan-device">
+        <div class="plan-device-header">
+          <input
+            type="checkbox"
+            .checked=${selectedCount > 0 && selectedCount === selectable.length}
+            .indeterminate=${selectedCount > 0 && selectedCount < selectable.length}
+            ?disabled=${selectable.length === 0}
+            @change=${(e: Event) =>
+              this._toggleDevice(plan, (e.target as HTMLInputElement).checked)}
+          />
+          <div class="plan-device-info" @click=${() => this._toggleExpanded(address)}>
+            <div class="plan-device-name">
+              ${plan.archived.name} (${plan.archived.model})
+            </div>
+            <div class="plan-device-meta">
+              ${address} \u2014
+              ${this._l("config_backup.item_count", { count: plan.items.length })}
+            </div>
+          </div>
+          <span class="expand-icon" @click=${() => this._toggleExpanded(address)}>
+            ${isExpanded ? "\u25BE" : "\u25B8"}
+          </span>
+        </div>
+        ${isExpanded
+          ? html`
+              <div class="plan-items">
+                ${plan.items.map((item) => this._renderItem(plan, item))}
+              </div>
+            `
+          : nothing}
+      </div>
+    `;
+  }
+
+  private _renderItem(plan: DeviceRestorePlan, item: RestoreItem) {
+    const key = this._itemKey(plan, item);
+    const result = this._itemResults.get(key);
+    const title =
+      item.kind === "paramset"
+        ? this._l("config_backup.item_paramset", { channel: item.channelAddress ?? "" })
+        : this._l(
+            item.linkExists ? "config_backup.item_link" : "config_backup.item_link_missing",
+            {
+              sender: item.link?.sender_address ?? "",
+              receiver: item.link?.receiver_address ?? "",
+            }
+          );
+
+    return html`
+      <div class="plan-item">
+        <label class="plan-item-header">
+          <input
+            type="checkbox"
+            .checked=${this._selected.has(key)}
+            ?disabled=${Boolean(item.error)}
+            @change=${() => this._toggleItem(key)}
+          />
+          <span class="plan-item-title">${title}</span>
+          ${result !== undefined
+            ? html`
+                <span class="result-badge ${result ? "success" : "failed"}">
+                  ${this._l(result ? "config_backup.result_success" : "config_backup.result_failed")}
+                </span>
+              `
+            : nothing}
+        </label>
+        ${item.error ? html`<div class="validation-error">${item.error}</div>` : nothing}
+        ${item.changes.map(
+          (change) => html`
+            <div class="change-row">
+              <span class="change-param">${change.parameter}</span>
+              <span class="change-values">
+                <span class="change-old">${formatValue(undefined, change.old)}</span>
+                \u2192
+                <span class="change-new">${formatValue(undefined, change.new)}</span>
+              </span>
+            </div>
+          `
+        )}
+      </div>
+    `;
+  }
+
+  static styles = [
+    sharedStyles,
+    css`
+      .backup-header {
+        margin-bottom: 16px;
+      }
+
+      .backup-header h2 {
+        margin: 8px 0 4px;
+        font-size: 20px;
+        font-weight: 400;
+      }
+
+      .backup-card {
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 8px;
+        margin-bottom: 16px;
+        overflow: hidden;
+      }
+
+      .backup-card-header {
+        font-size: 14px;
+        font-weight: 500;
+        padding: 12px 16px;
+        background: var(--secondary-background-color, #fafafa);
+        border-bottom: 1px solid var(--divider-color, #e0e0e0);
+      }
+
+      .backup-card-content {
+        padding: 8px 16px 16px;
+        font-size: 14px;
+      }
+
+      .archive-info {
+        margin-top: 12px;
+        font-size: 13px;
+        color: var(--secondary-text-color);
+      }
+
+      .progress {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        margin: 12px 0;
+        font-size: 13px;
+        color: var(--secondary-text-color);
+      }
+
+      .progress progress {
+        flex: 1;
+      }
+
+      .plan-warning {
+        margin-top: 12px;
+        padding: 8px 12px;
+        border-radius: 4px;
+        font-size: 13px;
+        background: rgba(255, 152, 0, 0.1);
+        color: var(--warning-color, #ff9800);
+      }
+
+      .error-list {
+        margin: 4px 0 0;
+        padding-left: 20px;
+      }
+
+      .plan-list {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        margin-top: 12px;
+      }
+
+      .plan-device {
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 8px;
+        overflow: hidden;
+      }
+
+      .plan-device-header {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        padding: 10px 16px;
+        background: var(--secondary-background-color, #fafafa);
+      }
+
+      .plan-device-info {
+        flex: 1;
+        min-width: 0;
+        cursor: pointer;
+      }
+
+      .plan-device-name {
+        font-size: 14px;
+        font-weight: 500;
+      }
+
+      .plan-device-meta {
+        font-size: 12px;
+        color: var(--secondary-text-color);
+        margin-top: 2px;
+      }
+
+      .expand-icon {
+        font-size: 16px;
+        color: var(--secondary-text-color);
+        cursor: pointer;
+      }
+
+      .plan-items {
+        padding: 8px 16px 12px;
+        border-top: 1px solid var(--divider-color, #e0e0e0);
+      }
+
+      .plan-item {
+        padding: 6px 0;
+      }
+
+      .plan-item-header {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        font-size: 13px;
+        font-weight: 500;
+        cursor: pointer;
+      }
+
+      .plan-item-title {
+        flex: 1;
+        font-family: monospace;
+      }
+
+      .change-row {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        padding: 2px 0 2px 28px;
+        font-size: 13px;
+      }
+
+      .change-param {
+        margin-right: 12px;
+      }
+
+      .change-values {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+      }
+
+      .change-old {
+        color: var(--error-color, #db4437);
+        text-decoration: line-through;
+      }
+
+      .change-new {
+        color: var(--primary-color, #03a9f4);
+        font-weight: 500;
+      }
+
+      .result-badge {
+        font-size: 11px;
+        padding: 2px 8px;
+        border-radius: 12px;
+        color: #fff;
+        text-transform: uppercase;
+      }
+
+      .result-badge.success {
+        background: var(--success-color, #43a047);
+      }
+
+      .result-badge.failed {
+        background: var(--error-color, #db4437);
+      }
+
+      .btn {
+        padding: 8px 20px;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 14px;
+        font-family: inherit;
+        border: 1px solid transparent;
+      }
+
+      .btn:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      .btn-primary {
+        background: var(--primary-color, #03a9f4);
+        color: #fff;
+        border-color: var(--primary-color, #03a9f4);
+      }
+
+      .btn-primary:hover:not(:disabled) {
+        opacity: 0.9;
+      }
+
+      .btn-secondary {
+        background: transparent;
+        color: var(--primary-text-color);
+        border-color: var(--divider-color, #e0e0e0);
+      }
+
+      .btn-secondary:hover:not(:disabled) {
+        background: var(--secondary-background-color, #f5f5f5);
+      }
+
+      @media (max-width: 600px) {
+        .change-row {
+          flex-direction: column;
+          align-items: flex-start;
+          gap: 2px;
+        }
+      }
+    `,
+  ];
+}
@@ -0,0 +1,616 @@
+import { LitElement, html, css, nothing } from "lit";
+import { property, state } from "lit/decorators.js";
+import { safeCustomElement } from "../safe-element";
+import { sharedStyles } from "../styles";
+import { listDevices, getFormSchema, getParamset, putParamset } from "../api";
+import { localize } from "../localize";
+import { showConfirmationDialog, showToast } from "../ha-helpers";
+import { findChannelsByType } from "../device-utils";
+import {
+  changesToValues,
+  findParameter,
+  formatValue,
+  writableParameters,
+} from "../paramset-diff";
+import { computeDrift } from "../config-drift";
+import type { ChannelRef } from "../device-utils";
+import type { DriftResult } from "../config-drift";
+import type { ParamsetChange } from "../paramset-diff";
+import type { HomeAssistant, DeviceInfo, FormSchema } from "../types";
+
+interface Progress {
+  done: number;
+  total: number;
+}
+
+@safeCustomElement("hm-config-drift")
+export class HmConfigDrift extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+  @property() public entryId = "";
+  /** Selection persisted in the URL: type and model. */
+  @property({ attribute: false }) public filters: Record<string, string> = {};
+
+  @state() private _devices: DeviceInfo[] = [];
+  @state() private _loading = true;
+  @state() private _error = "";
+  @state() private _progress: Progress | null = null;
+  @state() private _schema: FormSchema | null = null;
+  @state() private _refs: ChannelRef[] = [];
+  /** Addresses of channels whose paramset could not be read. */
+  @state() private _failed: string[] = [];
+  @state() private _drift: DriftResult | null = null;
+  @state() private _selected: Set<string> = new Set();
+  @state() private _aligning = false;
+  @state() private _results: Map<string, boolean> = new Map();
+
+  updated(changedProps: Map<string, unknown>): void {
+    if (changedProps.has("entryId") && this.entryId) {
+      this._fetchDevices();
+    }
+  }
+
+  private async _fetchDevices(): Promise<void> {
+    this._loading = true;
+    this._error = "";
+    this._drift = null;
+    try {
+      this._devices = await listDevices(this.hass, this.entryId);
+    } catch (err) {
+      this._error = String(err);
+    } finally {
+      this._loading = false;
+    }
+  }
+
+  private _l(key: string, params?: Record<string, string | number>): string {
+    return localize(this.hass, key, params);
+  }
+
+  /** Channel types with a MASTER paramset on more than one channel. */
+  private get _channelTypes(): string[] {
+    const counts = new Map<string, number>();
+    for (const device of this._devices) {
+      for (const channel of device.channels) {
+        if (!channel.paramset_keys.includes("MASTER")) continue;
+        counts.set(channel.channel_type, (counts.get(channel.channel_type) ?? 0) + 1);
+      }
+    }
+    return [...counts.entries()]
+      .filter(([, count]) => count > 1)
+      .map(([type]) => type)
+      .sort();
+  }
+
+  private get _candidates(): ChannelRef[] {
+    const { type, model } = this.filters;
+    if (!type) return [];
+    return findChannelsByType(this._devices, type).filter(
+      (ref) => !model || ref.device.model === model
+    );
+  }
+
+  private get _models(): string[] {
+    const { type } = this.filters;
+    if (!type) return [];
+    return [...new Set(findChannelsByType(this._devices, type).map((r) => r.device.model))].sort();
+  }
+
+  private _setFilter(key: string, value: string): void {
+    const next = { ...this.filters };
+    if (value) {
+      next[key] = value;
+    } else {
+      delete next[key];
+    }
+    if (key === "type") delete next.model;
+    this._drift = null;
+    this.dispatchEvent(
+      new CustomEvent("filters-changed", {
+        detail: { filters: next },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private _handleBack(): void {
+    this.dispatchEvent(new CustomEvent("back", { bubbles: true, composed: true }));
+  }
+
+  private async _handleAnalyze(): Promise<void> {
+    const refs = this._candidates;
+    if (refs.length < 2 || this._progress) return;
+    this._error = "";
+    this._drift = null;
+    this._results = new Map();
+    this._failed = [];
+    this._progress = { done: 0, total: refs.length };
+    try {
+      const first = refs[0];
+      this._schema = await getFormSchema(
+        this.hass,
+        this.entryId,
+        first.device.interface_id,
+        first.channel.address,
+        this.filters.type
+      );
+      const paramsets = new Map<string, Record<string, unknown>>();
+      const failed: string[] = [];
+      for (const [index, { device, channel }] of refs.entries()) {
+        this._progress = { done: index, total: refs.length };
+        try {
+          paramsets.set(
+            channel.address,
+            await getParamset(this.hass, this.entryId, device.interface_id, channel.address)
+          );
+        } catch {
+          // Unreadable channels are left out of the comparison and listed separately
+          failed.push(channel.address);
+        }
+      }
+      this._refs = refs.filter(({ channel }) => paramsets.has(channel.address));
+      this._failed = failed;
+      this._drift = computeDrift(paramsets, writableParameters(this._schema));
+      this._selected = new Set(this._drift.outliers.keys());
+    } catch (err) {
+      this._error = String(err);
+    } finally {
+      this._progress = null;
+    }
+  }
+
+  private _toggle(address: string): void {
+    const next = new Set(this._selected);
+    if (next.has(address)) {
+      next.delete(address);
+    } else {
+      next.add(address);
+    }
+    this._selected = next;
+  }
+
+  private async _handleAlign(addresses: string[]): Promise<void> {
+    const drift = this._drift;
+    if (!drift || addresses.length === 0 || this._aligning) return;
+    const confirmed = await showConfirmationDialog(this, {
+      title: this._l("config_drift.align_confirm_title"),
+      text: this._l("config_drift.align_confirm_text", { count: addresses.length }),
+      confirmText: this._l("config_drift.align"),
+      dismissText: this._l("common.cancel"),
+    });
+    if (!confirmed) return;
+
+    this._aligning = true;
+    const results = new Map(this._results);
+    let failed = 0;
+    for (const address of addresses) {
+      const ref = this._refs.find((r) => r.channel.address === address);
+      const changes = drift.outliers.get(address);
+      if (!ref || !changes) continue;
+      let success = false;
+      try {
+        const result = await putParamset(
+          this.hass,
+          this.entryId,
+          ref.device.interface_id,
+          address,
+          changesToValues(changes)
+        );
+        success = result.success;
+      } catch {
+        success = false;
+      }
+      if (!success) failed++;
+      results.set(address, success);
+    }
+    this._results = results;
+    this._selected = new Set([...this._selected].filter((a) => !results.get(a)));
+    this._aligning = false;
+
+    showToast(this, {
+      message: failed
+        ? this._l("config_drift.align_partial", { failed })
+        : this._l("config_drift.align_success"),
+    });
+  }
+
+  render() {
+    return html`
+      <button class="back-button" @click=${this._handleBack}>
+        \u25C2 ${this._l("common.back")}
+      </button>
+
+      <div class="drift-header">
+        <h2>${this._l("config_drift.title")}</h2>
+        <div class="device-info">${this._l("config_drift.subtitle")}</div>
+      </div>
+
+      ${this._loading
+        ? html`<div class="loading">${this._l("common.loading")}</div>`
+        : html`
+            ${this._renderSelection()}
+            ${this._error ? html`<div class="error">${this._error}</div>` : nothing}
+            ${this._progress
+              ? html`
+                  <div class="progress">
+                    <progress
+                      max=${this._progress.total}
+                      .value=${this._progress.done}
+                    ></progress>
+                    <span>
+                      ${this._l("config_drift.loading_progress", {
+                        done: this._progress.done,
+                        total: this._progress.total,
+                      })}
+                    </span>
+                  </div>
+                `
+              : nothing}
+            ${this._drift && this._failed.length > 0
+              ? html`
+                  <div class="read-failed" title=${this._failed.join(", ")}>
+                    ${this._l("config_drift.read_failed", { count: this._failed.length })}
+                  </div>
+                `
+              : nothing}
+            ${this._drift ? this._renderDrift(this._drift) : nothing}
+          `}
+    `;
+  }
+
+  private _renderSelection() {
+    const { type, model } = this.filters;
+    const candidates = this._candidates;
+
+    return html`
+      <div class="filter-bar">
+        <select
+          @change=${(e: Event) => this._setFilter("type", (e.target as HTMLSelectElement).value)}
+        >
+          <option value="" ?selected=${!type}>${this._l("config_drift.select_type")}</option>
+          ${this._channelTypes.map(
+            (t) => html`<option value=${t} ?selected=${type === t}>${t}</option>`
+          )}
+        </select>
+        <select
+          ?disabled=${!type}
+          @change=${(e: Event) => this._setFilter("model", (e.target as HTMLSelectElement).value)}
+        >
+          <option value="" ?selected=${!model}>${this._l("config_drift.all_models")}</option>
+          ${this._models.map(
+            (m) => html`<option value=${m} ?selected=${model === m}>${m}</option>`
+          )}
+        </select>
+        <button
+          class="btn btn-primary"
+          ?disabled=${candidates.length < 2 || this._progress !== null || this._aligning}
+          @click=${this._handleAnalyze}
+        >
+          ${this._l("config_drift.analyze", { count: candidates.length })}
+        </button>
+      </div>
+    `;
+  }
+
+  private _renderDrift(drift: DriftResult) {
+    if (drift.outliers.size === 0) {
+      return html`<div class="empty-state">${this._l("config_drift.no_drift")}</div>`;
+    }
+    const selected = [...this._selected].filter((a) => drift.outliers.has(a));
+
+    return html`
+      <div class="drift-summary">
+        ${this._l("config_drift.summary", {
+          outliers: drift.outliers.size,
+          channels: this._refs.length,
+          parameters: drift.majorities.length,
+        })}
+      </div>
+
+      <div class="section-title">${this._l("config_drift.majority_values")}</div>
+      <div class="majority-list">
+        ${drift.majorities.map((majority) => {
+          const param = findParameter(this._schema, majority.parameter);
+          return html`
+            <div class="majority-row">
+              <span class="majority-param">${param?.label ?? majority.parameter}</span>
+              <span class="majority-value">
+                ${formatValue(param, majority.value)}${param?.unit ? ` ${param.unit}` : ""}
+              </span>
+              <span class="majority-count">${majority.count}/${majority.total}</span>
+            </div>
+          `;
+        })}
+      </div>
+
+      <div class="section-title">${this._l("config_drift.outliers")}</div>
+      ${this._refs
+        .filter(({ channel }) => drift.outliers.has(channel.address))
+        .map((ref) => this._renderOutlier(ref, drift.outliers.get(ref.channel.address)!))}
+
+      <div class="action-bar">
+        <button
+          class="btn btn-primary"
+          ?disabled=${selected.length === 0 || this._aligning}
+          @click=${() => this._handleAlign(selected)}
+        >
+          ${this._aligning
+            ? this._l("config_drift.aligning")
+            : this._l("config_drift.align_selected", { count: selected.length })}
+        </button>
+      </div>
+    `;
+  }
+
+  private _renderOutlier(ref: ChannelRef, changes: ParamsetChange[]) {
+    const address = ref.channel.address;
+    const result = this._results.get(address);
+
+    return html`
+      <div class="outlier-card">
+        <input
+          type="checkbox"
+          .checked=${this._selected.has(address)}
+          ?disabled=${this._aligning || result === true}
+          @change=${() => this._toggle(address)}
+        />
+        <div class="outlier-content">
+          <div class="outlier-title">
+            <span>${ref.device.name}</span>
+            <span class="outlier-address">${address}</span>
+            ${result !== undefined
+              ? html`
+                  <span class="result-badge ${result ? "success" : "failed"}">
+                    ${this._l(result ? "config_drift.result_aligned" : "config_drift.result_failed")}
+                  </span>
+                `
+              : nothing}
+          </div>
+          ${changes.map((change) => {
+            const param = findParameter(this._schema, change.parameter);
+            return html`
+              <div class="outlier-change">
+                <span class="change-param">${param?.label ?? change.parameter}:</span>
+                <span class="change-old">${formatValue(param, change.old)}</span>
+                <span class="change-arrow">\u2192</span>
+                <span class="change-new">${formatValue(param, change.new)}</span>
+              </div>
+            `;
+          })}
+        </div>
+        <button
+          class="align-button"
+          ?disabled=${this._aligning || result === true}
+          @click=${() => this._handleAlign([address])}
+        >
+          ${this._l("config_drift.align")}
+        </button>
+      </div>
+    `;
+  }
+
+  static styles = [
+    sharedStyles,
+    css`
+      .drift-header {
+        margin-bottom: 16px;
+      }
+
+      .drift-header h2 {
+        margin: 8px 0 4px;
+        font-size: 20px;
+        font-weight: 400;
+      }
+
+      .filter-bar {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 8px;
+        margin-bottom: 16px;
+      }
+
+      .filter-bar select {
+        padding: 6px 8px;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 4px;
+        font-size: 13px;
+        font-family: inherit;
+        background: var(--card-background-color, #fff);
+        color: var(--primary-text-color);
+      }
+
+      .progress {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        margin: 16px 0;
+        font-size: 13px;
+        color: var(--secondary-text-color);
+      }
+
+      .progress progress {
+        flex: 1;
+      }
+
+      .read-failed {
+        font-size: 14px;
+        margin-bottom: 8px;
+        color: var(--error-color, #db4437);
+      }
+
+      .drift-summary {
+        font-size: 14px;
+        margin-bottom: 8px;
+      }
+
+      .section-title {
+        font-size: 14px;
+        font-weight: 500;
+        margin: 16px 0 8px;
+      }
+
+      .majority-list {
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 8px;
+      }
+
+      .majority-row {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        padding: 6px 12px;
+        font-size: 13px;
+        border-bottom: 1px solid var(--divider-color, #e0e0e0);
+      }
+
+      .majority-row:last-child {
+        border-bottom: none;
+      }
+
+      .majority-param {
+        flex: 1;
+      }
+
+      .majority-value {
+        font-weight: 500;
+      }
+
+      .majority-count {
+        color: var(--secondary-text-color);
+        font-size: 12px;
+      }
+
+      .outlier-card {
+        display: flex;
+        align-items: flex-start;
+        gap: 12px;
+        padding: 12px 16px;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 8px;
+        margin-bottom: 8px;
+      }
+
+      .outlier-card input[type="checkbox"] {
+        margin-top: 2px;
+        flex-shrink: 0;
+      }
+
+      .outlier-content {
+        flex: 1;
+        min-width: 0;
+      }
+
+      .outlier-title {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 8px;
+        font-size: 14px;
+        font-weight: 500;
+        margin-bottom: 4px;
+      }
+
+      .outlier-address {
+        font-family: monospace;
+        font-size: 12px;
+        font-weight: 400;
+        color: var(--secondary-text-color);
+      }
+
+      .outlier-change {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 6px;
+        font-size: 13px;
+      }
+
+      .change-param {
+        color: var(--secondary-text-color);
+      }
+
+      .change-old {
+        color: var(--error-color, #db4437);
+      }
+
+      .change-arrow {
+        color: var(--secondary-text-color);
+      }
+
+      .change-new {
+        color: var(--success-color, #43a047);
+      }
+
+      .result-badge {
+        font-size: 11px;
+        padding: 2px 8px;
+        border-radius: 12px;
+        color: #fff;
+        text-transform: uppercase;
+      }
+
+      .result-badge.success {
+        background: var(--success-color, #43a047);
+      }
+
+      .result-badge.failed {
+        background: var(--error-color, #db4437);
+      }
+
+      .align-button {
+        background: none;
+        border: 1px solid var(--primary-color, #03a9f4);
+        color: var(--primary-color, #03a9f4);
+        padding: 4px 12px;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 13px;
+        font-family: inherit;
+        flex-shrink: 0;
+      }
+
+      .align-button:hover:not(:disabled) {
+        background: var(--primary-color, #03a9f4);
+        color: #fff;
+      }
+
+      .align-button:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      .btn {
+        padding: 6px 20px;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 14px;
+        font-family: inherit;
+        border: 1px solid transparent;
+      }
+
+      .btn:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      .btn-primary {
+        background: var(--primary-color, #03a9f4);
+        color: #fff;
+        border-color: var(--primary-color, #03a9f4);
+      }
+
+      .btn-primary:hover:not(:disabled) {
+        opacity: 0.9;
+      }
+
+      @media (max-width: 600px) {
+        .outlier-card {
+          flex-wrap: wrap;
+        }
+
+        .align-button {
+          width: 100%;
+        }
+      }
+    `,
+  ];
+}
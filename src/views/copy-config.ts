@@ -0,0 +1,494 @@
+import { LitElement, html, css, nothing } from "lit";
+import { property, state } from "lit/decorators.js";
+import { safeCustomElement } from "../safe-element";
+import { sharedStyles } from "../styles";
+import { listDevices, getFormSchema, getParamset, putParamset } from "../api";
+import { localize } from "../localize";
+import { showConfirmationDialog, showToast } from "../ha-helpers";
+import { findChannelsByType } from "../device-utils";
+import {
+  diffParamsets,
+  changesToValues,
+  findParameter,
+  formatValue,
+  writableParameters,
+} from "../paramset-diff";
+import "../components/channel-picker";
+import type { ChannelRef } from "../device-utils";
+import type { ParamsetChange } from "../paramset-diff";
+import type { HomeAssistant, DeviceInfo, FormSchema } from "../types";
+
+type CopyStep = "select-targets" | "preview" | "result";
+
+interface TargetPreview {
+  target: ChannelRef;
+  changes: ParamsetChange[];
+  error?: string;
+}
+
+interface TargetResult {
+  status: "success" | "unchanged" | "validation_failed" | "failed";
+  validationErrors?: Record<string, string>;
+  error?: string;
+}
+
+@safeCustomElement("hm-copy-config")
+export class HmCopyConfig extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+  @property() public entryId = "";
+  @property() public interfaceId = "";
+  @property() public channelAddress = "";
+  @property() public channelType = "";
+  @property() public deviceName = "";
+
+  @state() private _step: CopyStep = "select-targets";
+  @state() private _devices: DeviceInfo[] = [];
+  @state() private _schema: FormSchema | null = null;
+  @state() private _sourceValues: Record<string, unknown> = {};
+  @state() private _selectedTargets: Set<string> = new Set();
+  @state() private _previews: TargetPreview[] = [];
+  @state() private _results: Map<string, TargetResult> = new Map();
+  @state() private _loading = true;
+  @state() private _applying = false;
+  @state() private _error = "";
+
+  updated(changedProps: Map<string, unknown>): void {
+    if (
+      (changedProps.has("entryId") || changedProps.has("channelAddress")) &&
+      this.entryId &&
+      this.channelAddress
+    ) {
+      this._fetchSource();
+    }
+  }
+
+  private async _fetchSource(): Promise<void> {
+    this._loading = true;
+    this._error = "";
+    this._step = "select-targets";
+    this._selectedTargets = new Set();
+    this._previews = [];
+    this._results = new Map();
+    try {
+      const [devices, schema, values] = await Promise.all([
+        listDevices(this.hass, this.entryId),
+        getFormSchema(
+          this.hass,
+          this.entryId,
+          this.interfaceId,
+          this.channelAddress,
+          this.channelType
+        ),
+        getParamset(this.hass, this.entryId, this.interfaceId, this.channelAddress),
+      ]);
+      this._devices = devices;
+      this._schema = schema;
+      this._sourceValues = values;
+    } catch (err) {
+      this._error = String(err);
+    } finally {
+      this._loading = false;
+    }
+  }
+
+  private _l(key: string, params?: Record<string, string | number>): string {
+    return localize(this.hass, key, params);
+  }
+
+  private get _candidates(): ChannelRef[] {
+    const channelType = this._schema?.channel_type || this.channelType;
+    return findChannelsByType(this._devices, channelType).filter(
+      ({ channel }) => channel.address !== this.channelAddress
+    );
+  }
+
+  private _handleBack(): void {
+    if (this._step === "preview" && !this._applying) {
+      this._step = "select-targets";
+      return;
+    }
+    this.dispatchEvent(new CustomEvent("back", { bubbles: true, composed: true }));
+  }
+
+  private async _handleNextToPreview(): Promise<void> {
+    if (this._selectedTargets.size === 0 || !this._schema) return;
+    this._step = "preview";
+    this._loading = true;
+    const writable = writableParameters(this._schema);
+    const targets = this._candidates.filter(({ channel }) =>
+      this._selectedTargets.has(channel.address)
+    );
+    const previews: TargetPreview[] = [];
+    for (const target of targets) {
+      try {
+        const current = await getParamset(
+          this.hass,
+          this.entryId,
+          target.device.interface_id,
+          target.channel.address
+        );
+        previews.push({
+          target,
+          changes: diffParamsets(current, this._sourceValues, writable),
+        });
+      } catch (err) {
+        previews.push({ target, changes: [], error: String(err) });
+      }
+    }
+    this._previews = previews;
+    this._loading = false;
+  }
+
+  private async _handleApply(): Promise<void> {
+    const pending = this._previews.filter((p) => !p.error && p.changes.length > 0);
+    if (pending.length === 0 || this._applying) return;
+
+    const confirmed = await showConfirmationDialog(this, {
+      title: this._l("copy_config.confirm_title"),
+      text: this._l("copy_config.confirm_text", { count: pending.length }),
+      confirmText: this._l("copy_config.apply"),
+      dismissText: this._l("common.cancel"),
+    });
+    if (!confirmed) return;
+
+    this._applying = true;
+    this._results = new Map();
+    for (const preview of this._previews) {
+      const address = preview.target.channel.address;
+      if (preview.error || preview.changes.length === 0) {
+        this._setResult(address, { status: "unchanged" });
+        continue;
+      }
+      try {
+        const result = await putParamset(
+          this.hass,
+          this.entryId,
+          preview.target.device.interface_id,
+          address,
+          changesToValues(preview.changes),
+          "MASTER",
+          true,
+          "copy"
+        );
+        this._setResult(
+          address,
+          result.success
+            ? { status: "success" }
+            : { status: "validation_failed", validationErrors: result.validation_errors }
+        );
+      } catch (err) {
+        this._setResult(address, { status: "failed", error: String(err) });
+      }
+    }
+    this._applying = false;
+    this._step = "result";
+
+    const failed = [...this._results.values()].filter(
+      (r) => r.status === "failed" || r.status === "validation_failed"
+    ).length;
+    showToast(this, {
+      message: failed
+        ? this._l("copy_config.apply_partial", { failed })
+        : this._l("copy_config.apply_success"),
+    });
+  }
+
+  private _setResult(address: string, result: TargetResult): void {
+    this._results = new Map(this._results).set(address, result);
+  }
+
+  render() {
+    if (this._loading && !this._schema) {
+      return html`<div class="loading">${this._l("common.loading")}</div>`;
+    }
+    if (this._error && !this._schema) {
+      return html`<div class="error">${this._error}</div>`;
+    }
+
+    return html`
+      <button class="back-button" @click=${this._handleBack}>
+        \u25C2 ${this._step === "preview"
+          ? this._l("add_link.back")
+          : this._l("common.back")}
+      </button>
+
+      <div class="copy-header">
+        <h2>${this._l("copy_config.title")}</h2>
+        <div class="device-info">
+          ${this._l("copy_config.source", {
+            device: this.deviceName || this.channelAddress,
+            channel: this.channelAddress,
+          })}
+          \u2014 ${this._schema?.channel_type ?? this.channelType}
+        </div>
+      </div>
+
+      ${this._error ? html`<div class="error">${this._error}</div>` : nothing}
+
+      ${this._step === "select-targets"
+        ? this._renderStepTargets()
+        : this._step === "preview"
+          ? this._renderStepPreview()
+          : this._renderStepResult()}
+    `;
+  }
+
+  private _renderStepTargets() {
+    return html`
+      <div class="step-indicator">${this._l("copy_config.step_targets")}</div>
+      <div class="step-description">${this._l("copy_config.select_targets")}</div>
+
+      <hm-channel-picker
+        .hass=${this.hass}
+        .candidates=${this._candidates}
+        .selected=${this._selectedTargets}
+        @selection-changed=${(e: CustomEvent) => {
+          this._selectedTargets = e.detail.selected;
+        }}
+      ></hm-channel-picker>
+
+      <div class="wizard-actions">
+        <button
+          class="btn btn-primary"
+          ?disabled=${this._selectedTargets.size === 0}
+          @click=${this._handleNextToPreview}
+        >
+          ${this._l("add_link.next")} \u25B8
+        </button>
+      </div>
+    `;
+  }
+
+  private _renderStepPreview() {
+    if (this._loading) {
+      return html`<div class="loading">${this._l("common.loading")}</div>`;
+    }
+    const changedTargets = this._previews.filter(
+      (p) => !p.error && p.changes.length > 0
+    ).length;
+
+    return html`
+      <div class="step-indicator">${this._l("copy_config.step_preview")}</div>
+
+      ${this._previews.map((preview) => this._renderPreview(preview))}
+
+      <div class="wizard-actions">
+        <button
+          class="btn btn-primary"
+          ?disabled=${changedTargets === 0 || this._applying}
+          @click=${this._handleApply}
+        >
+          ${this._applying
+            ? this._l("copy_config.applying")
+            : this._l("copy_config.apply_to", { count: changedTargets })}
+        </button>
+      </div>
+    `;
+  }
+
+  private _renderPreview(preview: TargetPreview) {
+    const { device, channel } = preview.target;
+    const result = this._results.get(channel.address);
+
+    return html`
+      <div class="target-card">
+        <div class="target-header">
+          <span>${device.name} (${device.model}) \u2014 ${channel.address}</span>
+          ${result ? this._renderResultBadge(result) : nothing}
+        </div>
+        <div class="target-body">
+          ${preview.error
+            ? html`<div class="error">${preview.error}</div>`
+            : preview.changes.length === 0
+              ? html`<div class="target-unchanged">${this._l("copy_config.no_changes")}</div>`
+              : preview.changes.map((change) => {
+                  const param = findParameter(this._schema, change.parameter);
+                  return html`
+                    <div class="change-row">
+                      <span class="change-param">${param?.label ?? change.parameter}</span>
+                      <span class="change-values">
+                        <span class="change-old">${formatValue(param, change.old)}</span>
+                        \u2192
+                        <span class="change-new">${formatValue(param, change.new)}</span>
+                      </span>
+                    </div>
+                  `;
+                })}
+          ${result?.validationErrors
+            ? Object.entries(result.validationErrors).map(
+                ([param, message]) =>
+                  html`<div class="validation-error">${param}: ${message}</div>`
+              )
+            : nothing}
+          ${result?.error ? html`<div class="validation-error">${result.error}</div>` : nothing}
+        </div>
+      </div>
+    `;
+  }
+
+  private _renderResultBadge(result: TargetResult) {
+    return html`
+      <span class="result-badge ${result.status}">
+        ${this._l(`copy_config.result_${result.status}`)}
+      </span>
+    `;
+  }
+
+  private _renderStepResult() {
+    return html`
+      <div class="step-indicator">${this._l("copy_config.step_result")}</div>
+
+      ${this._previews.map((preview) => this._renderPreview(preview))}
+
+      <div class="wizard-actions">
+        <button class="btn btn-primary" @click=${this._handleBack}>
+          ${this._l("copy_config.done")}
+        </button>
+      </div>
+    `;
+  }
+
+  static styles = [
+    sharedStyles,
+    css`
+      .copy-header {
+        margin-bottom: 16px;
+      }
+
+      .copy-header h2 {
+        margin: 8px 0 4px;
+        font-size: 20px;
+        font-weight: 400;
+      }
+
+      .step-indicator {
+        font-size: 13px;
+        color: var(--secondary-text-color);
+        margin-bottom: 4px;
+        font-weight: 500;
+      }
+
+      .step-description {
+        font-size: 14px;
+        margin-bottom: 16px;
+      }
+
+      .target-card {
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 8px;
+        margin-bottom: 8px;
+        overflow: hidden;
+      }
+
+      .target-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        gap: 8px;
+        padding: 10px 16px;
+        font-size: 14px;
+        font-weight: 500;
+        background: var(--secondary-background-color, #fafafa);
+        border-bottom: 1px solid var(--divider-color, #e0e0e0);
+      }
+
+      .target-body {
+        padding: 8px 16px;
+      }
+
+      .target-unchanged {
+        font-size: 13px;
+        color: var(--secondary-text-color);
+      }
+
+      .change-row {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        padding: 4px 0;
+        font-size: 13px;
+      }
+
+      .change-param {
+        font-weight: 500;
+        margin-right: 12px;
+      }
+
+      .change-values {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+      }
+
+      .change-old {
+        color: var(--error-color, #db4437);
+        text-decoration: line-through;
+      }
+
+      .change-new {
+        color: var(--primary-color, #03a9f4);
+        font-weight: 500;
+      }
+
+      .result-badge {
+        font-size: 11px;
+        padding: 2px 8px;
+        border-radius: 12px;
+        color: #fff;
+        text-transform: uppercase;
+        flex-shrink: 0;
+        background: var(--secondary-text-color, #888);
+      }
+
+      .result-badge.success {
+        background: var(--success-color, #43a047);
+      }
+
+      .result-badge.validation_failed,
+      .result-badge.failed {
+        background: var(--error-color, #db4437);
+      }
+
+      .wizard-actions {
+        display: flex;
+        justify-content: flex-end;
+        margin-top: 16px;
+        padding-top: 16px;
+        border-top: 1px solid var(--divider-color, #e0e0e0);
+      }
+
+      .btn {
+        padding: 8px 20px;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 14px;
+        font-family: inherit;
+        border: 1px solid transparent;
+      }
+
+      .btn:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      .btn-primary {
+        background: var(--primary-color, #03a9f4);
+        color: #fff;
+        border-color: var(--primary-color, #03a9f4);
+      }
+
+      .btn-primary:hover:not(:disabled) {
+        opacity: 0.9;
+      }
+
+      @media (max-width: 600px) {
+        .target-header,
+        .change-row {
+          flex-direction: column;
+          align-items: flex-start;
+          gap: 2px;
+        }
+      }
+    `,
+  ];
+}
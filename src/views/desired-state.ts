@@ -0,0 +1,614 @@
+import { LitElement, html, css, nothing } from "lit";
+import { property, state } from "lit/decorators.js";
+import { safeCustomElement } from "../safe-element";
+import { sharedStyles } from "../styles";
+import { listDevices } from "../api";
+import { localize } from "../localize";
+import { showConfirmationDialog, showToast } from "../ha-helpers";
+import { pickTextFile } from "../file-helpers";
+import { parseDesiredState, planDesiredState, applyPlanStep } from "../desired-state";
+import { formatValue } from "../paramset-diff";
+import type { DesiredState, DevicePlan, PlanStep, PlanStepKind } from "../desired-state";
+import type { HomeAssistant, DeviceInfo } from "../types";
+
+interface Progress {
+  done: number;
+  total: number;
+}
+
+const STEP_KINDS: PlanStepKind[] = ["paramset", "link_add", "link_update", "link_remove"];
+
+@safeCustomElement("hm-desired-state")
+export class HmDesiredState extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+  @property() public entryId = "";
+
+  @state() private _devices: DeviceInfo[] = [];
+  @state() private _loading = true;
+  @state() private _error = "";
+  @state() private _document: DesiredState | null = null;
+  @state() private _planProgress: Progress | null = null;
+  @state() private _plans: DevicePlan[] = [];
+  @state() private _selected: Set<string> = new Set();
+  @state() private _expanded: Set<string> = new Set();
+  @state() private _stepResults: Map<string, boolean> = new Map();
+  @state() private _applyProgress: Progress | null = null;
+
+  updated(changedProps: Map<string, unknown>): void {
+    if (changedProps.has("entryId") && this.entryId) {
+      this._fetchDevices();
+    }
+  }
+
+  private async _fetchDevices(): Promise<void> {
+    this._loading = true;
+    this._error = "";
+    this._document = null;
+    this._plans = [];
+    try {
+      this._devices = await listDevices(this.hass, this.entryId);
+    } catch (err) {
+      this._error = String(err);
+    } finally {
+      this._loading = false;
+    }
+  }
+
+  private _l(key: string, params?: Record<string, string | number>): string {
+    return localize(this.hass, key, params);
+  }
+
+  private _handleBack(): void {
+    this.dispatchEvent(new CustomEvent("back", { bubbles: true, composed: true }));
+  }
+
+  private async _handleLoadFile(): Promise<void> {
+    try {
+      const text = await pickTextFile(".yaml,.yml,.json");
+      if (text === null) return;
+      this._document = parseDesiredState(text);
+    } catch (err) {
+      showToast(this, {
+        message: this._l("desired_state.invalid_file", { error: String(err) }),
+      });
+      return;
+    }
+    await this._plan();
+  }
+
+  /** Compare the loaded document with the live system and select all plannable steps. */
+  private async _plan(): Promise<void> {
+    if (!this._document) return;
+    const total = Object.keys(this._document.devices).length;
+    this._plans = [];
+    this._selected = new Set();
+    this._stepResults = new Map();
+    this._planProgress = { done: 0, total };
+    try {
+      this._devices = await listDevices(this.hass, this.entryId);
+      this._plans = await planDesiredState(
+        this.hass,
+        this.entryId,
+        this._document,
+        this._devices,
+        (done, total) => {
+          this._planProgress = { done, total };
+        }
+      );
+      this._selected = new Set(
+        this._plans.flatMap((plan) =>
+          plan.steps.filter((step) => !step.error).map((step) => this._stepKey(plan, step))
+        )
+      );
+    } catch (err) {
+      this._error = String(err);
+    } finally {
+      this._planProgress = null;
+    }
+  }
+
+  private _stepKey(plan: DevicePlan, step: PlanStep): string {
+    return `${plan.address}::${step.key}`;
+  }
+
+  private _toggleStep(key: string): void {
+    const next = new Set(this._selected);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    this._selected = next;
+  }
+
+  private _toggleDevice(plan: DevicePlan, checked: boolean): void {
+    const next = new Set(this._selected);
+    for (const step of plan.steps) {
+      if (step.error) continue;
+      const key = this._stepKey(plan, step);
+      if (checked) {
+        next.add(key);
+      } else {
+        next.delete(key);
+      }
+    }
+    this._selected = next;
+  }
+
+  private _toggleExpanded(address: string): void {
+    const next = new Set(this._expanded);
+    if (next.has(address)) {
+      next.delete(address);
+    } else {
+      next.add(address);
+    }
+    this._expanded = next;
+  }
+
+  private async _handleApply(): Promise<void> {
+    if (this._selected.size === 0 || this._applyProgress) return;
+    const removals = this._plans.reduce(
+      (count, plan) =>
+        count +
+        plan.steps.filter(
+          (step) => step.kind === "link_remove" && this._selected.has(this._stepKey(plan, step))
+        ).length,
+      0
+    );
+    const confirmed = await showConfirmationDialog(this, {
+      title: this._l("desired_state.apply_confirm_title"),
+      text: removals
+        ? this._l("desired_state.apply_confirm_text_removals", {
+            count: this._selected.size,
+            removals,
+          })
+        : this._l("desired_state.apply_confirm_text", { count: this._selected.size }),
+      confirmText: this._l("desired_state.apply"),
+      dismissText: this._l("common.cancel"),
+      destructive: removals > 0,
+    });
+    if (!confirmed) return;
+
+    const total = this._selected.size;
+    this._stepResults = new Map();
+    this._applyProgress = { done: 0, total };
+    let failed = 0;
+    for (const plan of this._plans) {
+      for (const step of plan.steps) {
+        const key = this._stepKey(plan, step);
+        if (!this._selected.has(key)) continue;
+        let success = false;
+        try {
+          success = await applyPlanStep(this.hass, this.entryId, plan, step);
+        } catch {
+          success = false;
+        }
+        if (!success) failed++;
+        this._stepResults = new Map(this._stepResults).set(key, success);
+        this._applyProgress = { done: this._stepResults.size, total };
+      }
+    }
+    this._applyProgress = null;
+    showToast(this, {
+      message: failed
+        ? this._l("desired_state.apply_partial", { failed, total })
+        : this._l("desired_state.apply_success", { count: total }),
+    });
+  }
+
+  render() {
+    if (this._loading) {
+      return html`<div class="loading">${this._l("common.loading")}</div>`;
+    }
+    if (this._error) {
+      return html`<div class="error">${this._error}</div>`;
+    }
+
+    const busy = this._planProgress !== null || this._applyProgress !== null;
+
+    return html`
+      <button class="back-button" @click=${this._handleBack}>
+        \u25C2 ${this._l("common.back")}
+      </button>
+
+      <div class="desired-header">
+        <h2>${this._l("desired_state.title")}</h2>
+        <div class="device-info">${this._l("desired_state.subtitle")}</div>
+      </div>
+
+      <div class="action-row">
+        <button class="btn btn-secondary" ?disabled=${busy} @click=${this._handleLoadFile}>
+          ${this._l("desired_state.load_file")}
+        </button>
+        ${this._document
+          ? html`
+              <button class="btn btn-secondary" ?disabled=${busy} @click=${this._plan}>
+                ${this._l("desired_state.replan")}
+              </button>
+            `
+          : nothing}
+      </div>
+
+      ${this._planProgress
+        ? this._renderProgress("desired_state.plan_progress", this._planProgress)
+        : this._document
+          ? this._renderPlans()
+          : html`<div class="empty-state">${this._l("desired_state.no_document")}</div>`}
+    `;
+  }
+
+  private _renderProgress(key: string, progress: Progress) {
+    return html`
+      <div class="progress">
+        <progress max=${progress.total} .value=${progress.done}></progress>
+        <span>${this._l(key, { done: progress.done, total: progress.total })}</span>
+      </div>
+    `;
+  }
+
+  private _renderPlans() {
+    const changed = this._plans.filter((plan) => plan.steps.length > 0);
+    const missing = this._plans.filter((plan) => !plan.live);
+    const steps = changed.flatMap((plan) => plan.steps);
+
+    return html`
+      ${missing.length > 0
+        ? html`
+            <div class="plan-warning">
+              ${this._l("desired_state.devices_missing", {
+                devices: missing.map((p) => p.address).join(", "),
+              })}
+            </div>
+          `
+        : nothing}
+      ${changed.length === 0
+        ? html`<div class="empty-state">${this._l("desired_state.in_sync")}</div>`
+        : html`
+            <div class="plan-summary">
+              ${STEP_KINDS.map((kind) => {
+                const count = steps.filter((step) => step.kind === kind && !step.error).length;
+                return count
+                  ? html`
+                      <span class="kind-badge ${kind}">
+                        ${this._l(`desired_state.summary_${kind}`, { count })}
+                      </span>
+                    `
+                  : nothing;
+              })}
+            </div>
+            <div class="plan-list">${changed.map((plan) => this._renderDevicePlan(plan))}</div>
+            ${this._applyProgress
+              ? this._renderProgress("desired_state.apply_progress", this._applyProgress)
+              : nothing}
+            <div class="action-bar">
+              <button
+                class="btn btn-primary"
+                ?disabled=${this._selected.size === 0 || this._applyProgress !== null}
+                @click=${this._handleApply}
+              >
+                ${this._applyProgress
+                  ? this._l("desired_state.applying")
+                  : this._l("desired_state.apply_selected", { count: this._selected.size })}
+              </button>
+            </div>
+          `}
+    `;
+  }
+
+  private _renderDevicePlan(plan: DevicePlan) {
+    const selectable = plan.steps.filter((step) => !step.error);
+    const selectedCount = selectable.filter((step) =>
+      this._selected.has(this._stepKey(plan, step))
+    ).length;
+    const isExpanded = this._expanded.has(plan.address);
+
+    return html`
+      <div class="plan-device">
+        <div class="plan-device-header">
+          <input
+            type="checkbox"
+            .checked=${selectedCount > 0 && selectedCount === selectable.length}
+            .indeterminate=${selectedCount > 0 && selectedCount < selectable.length}
+            ?disabled=${selectable.length === 0 || this._applyProgress !== null}
+            @change=${(e: Event) =>
+              this._toggleDevice(plan, (e.target as HTMLInputElement).checked)}
+          />
+          <div class="plan-device-info" @click=${() => this._toggleExpanded(plan.address)}>
+            <div class="plan-device-name">
+              ${plan.live ? `${plan.live.name} (${plan.live.model})` : plan.address}
+            </div>
+            <div class="plan-device-meta">
+              ${plan.address} \u2014
+              ${this._l("desired_state.step_count", { count: plan.steps.length })}
+            </div>
+          </div>
+          <span class="expand-icon" @click=${() => this._toggleExpanded(plan.address)}>
+            ${isExpanded ? "\u25BE" : "\u25B8"}
+          </span>
+        </div>
+        ${isExpanded
+          ? html`
+              <div class="plan-items">
+                ${plan.steps.map((step) => this._renderStep(plan, step))}
+              </div>
+            `
+          : nothing}
+      </div>
+    `;
+  }
+
+  private _renderStep(plan: DevicePlan, step: PlanStep) {
+    const key = this._stepKey(plan, step);
+    const result = this._stepResults.get(key);
+    const title = step.link
+      ? `${step.link.sender} \u2192 ${step.link.receiver}`
+      : (step.channelAddress ?? step.key);
+
+    return html`
+      <div class="plan-item">
+        <label class="plan-item-header">
+          <input
+            type="checkbox"
+            .checked=${this._selected.has(key)}
+            ?disabled=${Boolean(step.error) || this._applyProgress !== null}
+            @change=${() => this._toggleStep(key)}
+          />
+          <span class="kind-badge ${step.kind}">${this._l(`desired_state.kind_${step.kind}`)}</span>
+          <span class="plan-item-title">${title}</span>
+          ${result !== undefined
+            ? html`
+                <span class="result-badge ${result ? "success" : "failed"}">
+                  ${this._l(result ? "desired_state.result_success" : "desired_state.result_failed")}
+                </span>
+              `
+            : nothing}
+        </label>
+        ${step.error ? html`<div class="validation-error">${step.error}</div>` : nothing}
+        ${step.changes.map(
+          (change) => html`
+            <div class="change-row">
+              <span class="change-param">${change.parameter}</span>
+              <span class="change-values">
+                ${step.kind === "link_add"
+                  ? nothing
+                  : html`
+                      <span class="change-old">${formatValue(undefined, change.old)}</span>
+                      \u2192
+                    `}
+                <span class="change-new">${formatValue(undefined, change.new)}</span>
+              </span>
+            </div>
+          `
+        )}
+      </div>
+    `;
+  }
+
+  static styles = [
+    sharedStyles,
+    css`
+      .desired-header {
+        margin-bottom: 16px;
+      }
+
+      .desired-header h2 {
+        margin: 8px 0 4px;
+        font-size: 20px;
+        font-weight: 400;
+      }
+
+      .action-row {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 8px;
+        margin-bottom: 16px;
+      }
+
+      .progress {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        margin: 12px 0;
+        font-size: 13px;
+        color: var(--secondary-text-color);
+      }
+
+      .progress progress {
+        flex: 1;
+      }
+
+      .plan-warning {
+        margin-bottom: 12px;
+        padding: 8px 12px;
+        border-radius: 4px;
+        font-size: 13px;
+        background: rgba(255, 152, 0, 0.1);
+        color: var(--warning-color, #ff9800);
+      }
+
+      .plan-summary {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 8px;
+        margin-bottom: 12px;
+      }
+
+      .kind-badge {
+        font-size: 11px;
+        padding: 2px 8px;
+        border-radius: 12px;
+        white-space: nowrap;
+        background: var(--secondary-background-color, #f5f5f5);
+        color: var(--secondary-text-color);
+      }
+
+      .kind-badge.paramset,
+      .kind-badge.link_update {
+        background: rgba(3, 169, 244, 0.1);
+        color: var(--primary-color, #03a9f4);
+      }
+
+      .kind-badge.link_add {
+        background: rgba(67, 160, 71, 0.1);
+        color: var(--success-color, #43a047);
+      }
+
+      .kind-badge.link_remove {
+        background: rgba(219, 68, 55, 0.1);
+        color: var(--error-color, #db4437);
+      }
+
+      .plan-list {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+      }
+
+      .plan-device {
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 8px;
+        overflow: hidden;
+      }
+
+      .plan-device-header {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        padding: 10px 16px;
+        background: var(--secondary-background-color, #fafafa);
+      }
+
+      .plan-device-info {
+        flex: 1;
+        min-width: 0;
+        cursor: pointer;
+      }
+
+      .plan-device-name {
+        font-size: 14px;
+        font-weight: 500;
+      }
+
+      .plan-device-meta {
+        font-size: 12px;
+        color: var(--secondary-text-color);
+        margin-top: 2px;
+      }
+
+      .expand-icon {
+        font-size: 16px;
+        color: var(--secondary-text-color);
+        cursor: pointer;
+      }
+
+      .plan-items {
+        padding: 8px 16px 12px;
+        border-top: 1px solid var(--divider-color, #e0e0e0);
+      }
+
+      .plan-item {
+        padding: 6px 0;
+      }
+
+      .plan-item-header {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        font-size: 13px;
+        font-weight: 500;
+        cursor: pointer;
+      }
+
+      .plan-item-title {
+        flex: 1;
+        font-family: monospace;
+      }
+
+      .change-row {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        padding: 2px 0 2px 28px;
+        font-size: 13px;
+      }
+
+      .change-param {
+        margin-right: 12px;
+      }
+
+      .change-values {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+      }
+
+      .change-old {
+        color: var(--error-color, #db4437);
+        text-decoration: line-through;
+      }
+
+      .change-new {
+        color: var(--primary-color, #03a9f4);
+        font-weight: 500;
+      }
+
+      .result-badge {
+        font-size: 11px;
+        padding: 2px 8px;
+        border-radius: 12px;
+        color: #fff;
+        text-transform: uppercase;
+      }
+
+      .result-badge.success {
+        background: var(--success-color, #43a047);
+      }
+
+      .result-badge.failed {
+        background: var(--error-color, #db4437);
+      }
+
+      .btn {
+        padding: 8px 20px;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 14px;
+        font-family: inherit;
+        border: 1px solid transparent;
+      }
+
+      .btn:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      .btn-primary {
+        background: var(--primary-color, #03a9f4);
+        color: #fff;
+        border-color: var(--primary-color, #03a9f4);
+      }
+
+      .btn-primary:hover:not(:disabled) {
+        opacity: 0.9;
+      }
+
+      .btn-secondary {
+        background: transparent;
+        color: var(--primary-text-color);
+        border-color: var(--divider-color, #e0e0e0);
+      }
+
+      .btn-secondary:hover:not(:disabled) {
+        background: var(--secondary-background-color, #f5f5f5);
+      }
+
+      @media (max-width: 600px) {
+        .change-row {
+          flex-direction: column;
+          align-items: flex-start;
+          gap: 2px;
+        }
+      }
+    `,
+  ];
+}
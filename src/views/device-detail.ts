@@ -2,10 +2,39 @@ import { LitElement, html, css, nothing } from "lit";
 import { property, state } from "lit/decorators.js";
 import { safeCustomElement } from "../safe-element";
 import { sharedStyles } from "../styles";
-import { listDevices, exportParamset, importParamset, LINKABLE_INTERFACES } from "../api";
+import {
+  listDevices,
+  getFormSchema,
+  getParamset,
+  exportParamset,
+  importParamset,
+  parseParamsetExport,
+  LINKABLE_INTERFACES,
+} from "../api";
 import { localize } from "../localize";
-import { showConfirmationDialog, showToast } from "../ha-helpers";
-import type { HomeAssistant, DeviceInfo, ChannelInfo, MaintenanceData } from "../types";
+import { showToast } from "../ha-helpers";
+import { downloadFile, pickTextFile } from "../file-helpers";
+import { diffParamsets, writableParameters } from "../paramset-diff";
+import { resolveDeviceRefs, resolveChannelEntities } from "../ha-registry";
+import { subscribeDeviceEvents, applyDeviceEvent } from "../subscriptions";
+import "../components/import-preview";
+import type { HaEntityRef } from "../ha-registry";
+import type { ParamsetChange } from "../paramset-diff";
+import type {
+  HomeAssistant,
+  DeviceInfo,
+  ChannelInfo,
+  MaintenanceData,
+  FormSchema,
+  ParamsetExport,
+} from "../types";
+
+interface ImportPreviewState {
+  channel: ChannelInfo;
+  data: ParamsetExport;
+  schema: FormSchema;
+  changes: ParamsetChange[];
+}
 
 @safeCustomElement("hm-device-detail")
 export class HmDeviceDetail extends LitElement {
@@ -17,6 +46,24 @@ export class HmDeviceDetail extends LitElement {
   @state() private _device: DeviceInfo | null = null;
   @state() private _loading = true;
   @state() private _error = "";
+  @state() private _importPreview: ImportPreviewState | null = null;
+  @state() private _importing = false;
+  /** HA device registry ID and entities per channel; empty when the registry is not accessible. */
+  @state() private _haDeviceId = "";
+  @state() private _channelEntities: Map<string, HaEntityRef[]> = new Map();
+
+  private _unsubscribeEvents?: () => void;
+
+  connectedCallback(): void {
+    super.connectedCallback();
+    if (this.hasUpdated && this.entryId) this._subscribeEvents();
+  }
+
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this._unsubscribeEvents?.();
+    this._unsubscribeEvents = undefined;
+  }
 
   updated(changedProps: Map<string, unknown>): void {
     if (
@@ -26,6 +73,17 @@ export class HmDeviceDetail extends LitElement {
     ) {
       this._fetchDevice();
     }
+    if (changedProps.has("entryId") && this.entryId) {
+      this._subscribeEvents();
+    }
+  }
+
+  /** Keep the maintenance values of the shown device current. */
+  private _subscribeEvents(): void {
+    this._unsubscribeEvents?.();
+    this._unsubscribeEvents = subscribeDeviceEvents(this.hass, this.entryId, (event) => {
+      if (this._device) this._device = applyDeviceEvent(this._device, event);
+    });
   }
 
   private async _fetchDevice(): Promise<void> {
@@ -40,6 +98,36 @@ export class HmDeviceDetail extends LitElement {
     } finally {
       this._loading = false;
     }
+    if (this._device) this._fetchEntities(this._device);
+  }
+
+  private async _fetchEntities(device: DeviceInfo): Promise<void> {
+    this._haDeviceId = "";
+    this._channelEntities = new Map();
+    try {
+      const refs = await resolveDeviceRefs(this.hass);
+      const deviceId = refs.get(device.address)?.deviceId ?? "";
+      const entities = await resolveChannelEntities(
+        this.hass,
+        device.channels.map((c) => c.address),
+        deviceId || undefined
+      );
+      if (device.address !== this._device?.address) return;
+      this._haDeviceId = deviceId;
+      this._channelEntities = entities;
+    } catch {
+      // Registry access requires admin rights; the entity list is optional
+    }
+  }
+
+  private _handleEntityClick(entityId: string): void {
+    this.dispatchEvent(
+      new CustomEvent("hass-more-info", {
+        detail: { entityId },
+        bubbles: true,
+        composed: true,
+      })
+    );
   }
 
   private _l(key: string, params?: Record<string, string | number>): string {
@@ -66,6 +154,21 @@ export class HmDeviceDetail extends LitElement {
     );
   }
 
+  private _handleCopy(channel: ChannelInfo): void {
+    this.dispatchEvent(
+      new CustomEvent("copy-config", {
+        detail: {
+          channel: channel.address,
+          interfaceId: this.interfaceId,
+          channelType: channel.channel_type,
+          deviceName: this._device?.name || this.deviceAddress,
+        },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
   private _handleShowHistory(): void {
     this.dispatchEvent(
       new CustomEvent("show-history", {
@@ -90,6 +193,26 @@ export class HmDeviceDetail extends LitElement {
     );
   }
 
+  private _handleShowBackup(): void {
+    this.dispatchEvent(
+      new CustomEvent("show-backup", {
+        detail: { device: this.deviceAddress, interfaceId: this.interfaceId },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private _handleReplace(): void {
+    this.dispatchEvent(
+      new CustomEvent("replace-device", {
+        detail: { device: this.deviceAddress, interfaceId: this.interfaceId },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
   private async _handleExport(channel: ChannelInfo): Promise<void> {
     try {
       const result = await exportParamset(
@@ -99,13 +222,7 @@ export class HmDeviceDetail extends LitElement {
         channel.address,
         "MASTER"
       );
-      const blob = new Blob([result.json_data], { type: "application/json" });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `${channel.address.replace(/:/g, "_")}_MASTER.json`;
-      a.click();
-      URL.revokeObjectURL(url);
+      downloadFile(`${channel.address.replace(/:/g, "_")}_MASTER.json`, result.json_data);
       showToast(this, { message: this._l("device_detail.export_success") });
     } catch {
       showToast(this, { message: this._l("device_detail.export_failed") });
@@ -113,40 +230,67 @@ export class HmDeviceDetail extends LitElement {
   }
 
   private async _handleImport(channel: ChannelInfo): Promise<void> {
-    const input = document.createElement("input");
-    input.type = "file";
-    input.accept = ".json";
-    input.onchange = async () => {
-      const file = input.files?.[0];
-      if (!file) return;
-      try {
-        const jsonData = await file.text();
-        const confirmed = await showConfirmationDialog(this, {
-          title: this._l("device_detail.import_confirm_title"),
-          text: this._l("device_detail.import_confirm_text", { channel: channel.address }),
-          confirmText: this._l("device_detail.import"),
-          dismissText: this._l("common.cancel"),
-        });
-        if (!confirmed) return;
-
-        const result = await importParamset(
+    let data: ParamsetExport;
+    try {
+      const jsonData = await pickTextFile(".json");
+      if (jsonData === null) return;
+      data = parseParamsetExport(jsonData);
+    } catch {
+      showToast(this, { message: this._l("device_detail.import_invalid_file") });
+      return;
+    }
+
+    try {
+      const [schema, current] = await Promise.all([
+        getFormSchema(
           this.hass,
           this.entryId,
           this.interfaceId,
           channel.address,
-          jsonData,
-          "MASTER"
-        );
-        if (result.success) {
-          showToast(this, { message: this._l("device_detail.import_success") });
-        } else {
-          showToast(this, { message: this._l("device_detail.import_validation_failed") });
-        }
-      } catch {
-        showToast(this, { message: this._l("device_detail.import_failed") });
+          channel.channel_type
+        ),
+        getParamset(this.hass, this.entryId, this.interfaceId, channel.address),
+      ]);
+      this._importPreview = {
+        channel,
+        data,
+        schema,
+        changes: diffParamsets(current, data.values, writableParameters(schema)),
+      };
+    } catch {
+      showToast(this, { message: this._l("device_detail.import_failed") });
+    }
+  }
+
+  private async _handleImportConfirmed(e: CustomEvent): Promise<void> {
+    const preview = this._importPreview;
+    if (!preview || this._importing) return;
+    const parameters = new Set<string>(e.detail.parameters);
+    const values = Object.fromEntries(
+      Object.entries(preview.data.values).filter(([key]) => parameters.has(key))
+    );
+
+    this._importing = true;
+    try {
+      const result = await importParamset(
+        this.hass,
+        this.entryId,
+        this.interfaceId,
+        preview.channel.address,
+        JSON.stringify({ ...preview.data, values }),
+        "MASTER"
+      );
+      if (result.success) {
+        showToast(this, { message: this._l("device_detail.import_success") });
+        this._importPreview = null;
+      } else {
+        showToast(this, { message: this._l("device_detail.import_validation_failed") });
       }
-    };
-    input.click();
+    } catch {
+      showToast(this, { message: this._l("device_detail.import_failed") });
+    } finally {
+      this._importing = false;
+    }
   }
 
   render() {
@@ -186,9 +330,40 @@ export class HmDeviceDetail extends LitElement {
           <button class="history-button" @click=${this._handleShowHistory}>
             ${this._l("device_detail.show_history")}
           </button>
+          <button class="history-button" @click=${this._handleShowBackup}>
+            ${this._l("device_detail.backup")}
+          </button>
+          <button class="history-button" @click=${this._handleReplace}>
+            ${this._l("device_detail.replace_device")}
+          </button>
+          ${this._haDeviceId
+            ? html`
+                <a class="history-button" href="/config/devices/device/${this._haDeviceId}">
+                  ${this._l("device_detail.open_ha_device")}
+                </a>
+              `
+            : nothing}
         </div>
       </div>
 
+      ${this._importPreview
+        ? html`
+            <hm-import-preview
+              .hass=${this.hass}
+              .schema=${this._importPreview.schema}
+              .changes=${this._importPreview.changes}
+              .channelAddress=${this._importPreview.channel.address}
+              .importedModel=${this._importPreview.data.model ?? ""}
+              .deviceModel=${device.model}
+              .busy=${this._importing}
+              @import-confirmed=${this._handleImportConfirmed}
+              @import-cancelled=${() => {
+                this._importPreview = null;
+              }}
+            ></hm-import-preview>
+          `
+        : nothing}
+
       ${ch0 ? this._renderMaintenanceChannel(ch0, device.maintenance) : nothing}
       ${otherChannels.map((ch) => this._renderChannel(ch))}
     `;
@@ -203,6 +378,7 @@ export class HmDeviceDetail extends LitElement {
         <div class="channel-header">
           ${this._l("device_detail.channel")} 0: ${channel.channel_type}
         </div>
+        ${this._renderEntities(channel)}
         ${hasStatus ? this._renderStatusSummary(maintenance) : nothing}
         ${hasMaster
           ? html`
@@ -225,6 +401,12 @@ export class HmDeviceDetail extends LitElement {
                 >
                   ${this._l("device_detail.import")} &#x2B06;
                 </button>
+                <button
+                  class="configure-button"
+                  @click=${() => this._handleCopy(channel)}
+                >
+                  ${this._l("device_detail.copy_to")}
+                </button>
               </div>
             `
           : nothing}
@@ -282,6 +464,28 @@ export class HmDeviceDetail extends LitElement {
     `;
   }
 
+  private _renderEntities(channel: ChannelInfo) {
+    const entities = this._channelEntities.get(channel.address);
+    if (!entities) return nothing;
+
+    return html`
+      <div class="channel-entities">
+        ${entities.map(
+          (entity) => html`
+            <button
+              class="entity-chip ${entity.disabled ? "disabled" : ""}"
+              title=${entity.entityId}
+              @click=${() => this._handleEntityClick(entity.entityId)}
+            >
+              ${entity.name}
+              <span class="entity-id">${entity.entityId}</span>
+            </button>
+          `
+        )}
+      </div>
+    `;
+  }
+
   private _renderChannel(channel: ChannelInfo) {
     const channelNo = channel.address.split(":").pop() ?? "";
     const hasMaster = channel.paramset_keys.includes("MASTER");
@@ -291,6 +495,7 @@ export class HmDeviceDetail extends LitElement {
         <div class="channel-header">
           ${this._l("device_detail.channel")} ${channelNo}: ${channel.channel_type}
         </div>
+        ${this._renderEntities(channel)}
         ${hasMaster
           ? html`
               <div class="channel-actions">
@@ -312,6 +517,12 @@ export class HmDeviceDetail extends LitElement {
                 >
                   ${this._l("device_detail.import")} &#x2B06;
                 </button>
+                <button
+                  class="configure-button"
+                  @click=${() => this._handleCopy(channel)}
+                >
+                  ${this._l("device_detail.copy_to")}
+                </button>
               </div>
             `
           : html`
@@ -338,6 +549,7 @@ export class HmDeviceDetail extends LitElement {
 
       .header-actions {
         display: flex;
+        flex-wrap: wrap;
         gap: 8px;
         margin-top: 8px;
       }
@@ -358,6 +570,10 @@ export class HmDeviceDetail extends LitElement {
         color: #fff;
       }
 
+      a.history-button {
+        text-decoration: none;
+      }
+
       .channel-card {
         border: 1px solid var(--divider-color, #e0e0e0);
         border-radius: 8px;
@@ -377,6 +593,42 @@ export class HmDeviceDetail extends LitElement {
         border-bottom: 1px solid var(--divider-color, #e0e0e0);
       }
 
+      .channel-entities {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 6px;
+        padding: 8px 16px 0;
+      }
+
+      .entity-chip {
+        display: flex;
+        flex-direction: column;
+        align-items: flex-start;
+        background: none;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 8px;
+        padding: 4px 10px;
+        cursor: pointer;
+        font-size: 13px;
+        font-family: inherit;
+        color: var(--primary-text-color);
+        text-align: left;
+      }
+
+      .entity-chip:hover {
+        border-color: var(--primary-color, #03a9f4);
+      }
+
+      .entity-chip.disabled {
+        opacity: 0.6;
+      }
+
+      .entity-id {
+        font-family: monospace;
+        font-size: 11px;
+        color: var(--secondary-text-color);
+      }
+
       .channel-actions {
         padding: 8px 16px;
         display: flex;
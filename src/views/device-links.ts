@@ -1,10 +1,11 @@
-import { LitElement, html, css, nothing } from "lit";
+import { LitElement, html, css } from "lit";
 import { property, state } from "lit/decorators.js";
 import { safeCustomElement } from "../safe-element";
 import { sharedStyles } from "../styles";
 import { listDeviceLinks, removeLink } from "../api";
 import { localize } from "../localize";
 import { showConfirmationDialog, showToast } from "../ha-helpers";
+import "../components/link-info-editor";
 import type { HomeAssistant, LinkInfo } from "../types";
 
 @safeCustomElement("hm-device-links")
@@ -117,6 +118,15 @@ export class HmDeviceLinks extends LitElement {
     }
   }
 
+  private _handleLinkInfoChanged(e: CustomEvent): void {
+    const { senderAddress, receiverAddress, name, description } = e.detail;
+    this._links = this._links.map((link) =>
+      link.sender_address === senderAddress && link.receiver_address === receiverAddress
+        ? { ...link, name, description }
+        : link
+    );
+  }
+
   /** Group links by the channel belonging to the current device. */
   private _groupByChannel(): Map<string, LinkInfo[]> {
     const groups = new Map<string, LinkInfo[]>();
@@ -208,9 +218,16 @@ export class HmDeviceLinks extends LitElement {
             \u2192
             ${link.receiver_device_name} (${link.receiver_device_model})
           </div>
-          ${link.name
-            ? html`<div class="link-name">"${link.name}"</div>`
-            : nothing}
+          <hm-link-info-editor
+            class="link-meta"
+            .hass=${this.hass}
+            .entryId=${this.entryId}
+            .senderAddress=${link.sender_address}
+            .receiverAddress=${link.receiver_address}
+            .name=${link.name}
+            .description=${link.description}
+            @link-info-changed=${this._handleLinkInfoChanged}
+          ></hm-link-info-editor>
         </div>
         <div class="link-actions">
           <button
@@ -329,11 +346,8 @@ export class HmDeviceLinks extends LitElement {
         color: var(--secondary-text-color);
       }
 
-      .link-name {
-        font-size: 12px;
-        font-style: italic;
-        color: var(--secondary-text-color);
-        margin-top: 4px;
+      .link-meta {
+        margin-top: 8px;
       }
 
       .link-actions {
@@ -2,67 +2,240 @@ import { LitElement, html, css, nothing } from "lit";
 import { property, state } from "lit/decorators.js";
 import { safeCustomElement } from "../safe-element";
 import { sharedStyles } from "../styles";
-import { listDevices } from "../api";
+import { listDevices, LINKABLE_INTERFACES } from "../api";
 import { localize } from "../localize";
+import { collectDeviceLinks } from "../installation-links";
+import { deviceAddressOf } from "../device-utils";
+import { resolveDeviceRefs } from "../ha-registry";
+import { deviceRssi } from "../fleet-health";
+import { isActive, loadQueue } from "../write-queue";
+import { subscribeDeviceEvents, applyDeviceEventToList } from "../subscriptions";
+import type { HaArea, HaDeviceRef } from "../ha-registry";
 import type { HomeAssistant, EntryInfo, DeviceInfo, MaintenanceData } from "../types";
 
+type SortKey = "name" | "model" | "address" | "rssi" | "firmware";
+
+const SORT_KEYS: SortKey[] = ["name", "model", "address", "rssi", "firmware"];
+
+/** Status chips; each one narrows the list to devices with that flag. */
+const STATUS_FILTERS = ["unreach", "low_bat", "config_pending", "has_links"] as const;
+
+type StatusFilter = (typeof STATUS_FILTERS)[number];
+
+/** Area filter value for devices without an HA area. */
+const UNASSIGNED_AREA = "unassigned";
+
+interface Progress {
+  done: number;
+  total: number;
+}
+
 @safeCustomElement("hm-device-list")
 export class HmDeviceList extends LitElement {
   @property({ attribute: false }) public hass!: HomeAssistant;
   @property() public entryId = "";
   @property({ attribute: false }) public entries: EntryInfo[] = [];
+  @property({ attribute: false }) public filters: Record<string, string> = {};
 
   @state() private _devices: DeviceInfo[] = [];
   @state() private _loading = false;
-  @state() private _searchQuery = "";
   @state() private _error = "";
+  /** Device addresses with at least one direct link; read on first use of the links chip. */
+  @state() private _linkedDevices: Set<string> | null = null;
+  @state() private _linksProgress: Progress | null = null;
+  /** HA registry entries by device address; null when the registry is not accessible. */
+  @state() private _deviceRefs: Map<string, HaDeviceRef> | null = null;
+
+  private _unsubscribeEvents?: () => void;
+
+  connectedCallback(): void {
+    super.connectedCallback();
+    if (this.hasUpdated && this.entryId) this._subscribeEvents();
+  }
+
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this._unsubscribeEvents?.();
+    this._unsubscribeEvents = undefined;
+  }
 
   updated(changedProps: Map<string, unknown>): void {
     if (changedProps.has("entryId") && this.entryId) {
       this._fetchDevices();
+      this._subscribeEvents();
     }
+    if (
+      changedProps.has("filters") &&
+      this.filters.has_links &&
+      !this._linkedDevices &&
+      !this._linksProgress &&
+      !this._loading
+    ) {
+      this._fetchLinkedDevices();
+    }
+  }
+
+  /** Keep the maintenance values of the listed devices current. */
+  private _subscribeEvents(): void {
+    this._unsubscribeEvents?.();
+    this._unsubscribeEvents = subscribeDeviceEvents(this.hass, this.entryId, (event) => {
+      this._devices = applyDeviceEventToList(this._devices, event);
+    });
   }
 
   private async _fetchDevices(): Promise<void> {
     if (!this.entryId) return;
     this._loading = true;
     this._error = "";
+    this._linkedDevices = null;
     try {
       this._devices = await listDevices(this.hass, this.entryId);
+      this._deviceRefs = await resolveDeviceRefs(this.hass).catch(() => null);
     } catch (err) {
       this._error = String(err);
       this._devices = [];
     } finally {
       this._loading = false;
     }
+    if (this.filters.has_links && this._devices.length > 0) {
+      this._fetchLinkedDevices();
+    }
+  }
+
+  private async _fetchLinkedDevices(): Promise<void> {
+    const entryId = this.entryId;
+    this._linksProgress = { done: 0, total: 1 };
+    try {
+      const deviceLinks = await collectDeviceLinks(
+        this.hass,
+        entryId,
+        this._devices,
+        (done, total) => (this._linksProgress = { done, total })
+      );
+      if (entryId !== this.entryId) return;
+      const linked = new Set<string>();
+      for (const links of deviceLinks.values()) {
+        for (const link of links) {
+          linked.add(deviceAddressOf(link.sender_address));
+          linked.add(deviceAddressOf(link.receiver_address));
+        }
+      }
+      this._linkedDevices = linked;
+    } catch (err) {
+      this._error = String(err);
+    } finally {
+      this._linksProgress = null;
+    }
   }
 
   private _l(key: string, params?: Record<string, string | number>): string {
     return localize(this.hass, key, params);
   }
 
+  private _setFilter(key: string, value: string): void {
+    const next = { ...this.filters };
+    if (value) {
+      next[key] = value;
+    } else {
+      delete next[key];
+    }
+    this.dispatchEvent(
+      new CustomEvent("filters-changed", {
+        detail: { filters: next },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private _matchesStatus(device: DeviceInfo, status: StatusFilter): boolean {
+    if (status === "has_links") {
+      return this._linkedDevices?.has(device.address) ?? true;
+    }
+    return device.maintenance?.[status] === true;
+  }
+
   private get _filteredDevices(): DeviceInfo[] {
-    if (!this._searchQuery) return this._devices;
-    const q = this._searchQuery.toLowerCase();
+    const { q, iface, model, area } = this.filters;
+    const query = q?.toLowerCase() ?? "";
+    const statuses = STATUS_FILTERS.filter((status) => this.filters[status]);
     return this._devices.filter(
       (d) =>
-        d.name.toLowerCase().includes(q) ||
-        d.address.toLowerCase().includes(q) ||
-        d.model.toLowerCase().includes(q)
+        (!query ||
+          d.name.toLowerCase().includes(query) ||
+          d.address.toLowerCase().includes(query) ||
+          d.model.toLowerCase().includes(query) ||
+          (this._areaOf(d)?.name.toLowerCase().includes(query) ?? false)) &&
+        (!iface || d.interface === iface) &&
+        (!model || d.model === model) &&
+        (!area || !this._deviceRefs || (this._areaOf(d)?.area_id ?? UNASSIGNED_AREA) === area) &&
+        statuses.every((status) => this._matchesStatus(d, status))
     );
   }
 
+  private get _sortKey(): SortKey {
+    const sort = this.filters.sort as SortKey;
+    return SORT_KEYS.includes(sort) ? sort : "name";
+  }
+
+  private get _sortedDevices(): DeviceInfo[] {
+    const key = this._sortKey;
+    return [...this._filteredDevices].sort((a, b) => {
+      let result = 0;
+      if (key === "rssi") {
+        // Weakest signal first; devices without RSSI at the end
+        result = (deviceRssi(a) ?? Infinity) - (deviceRssi(b) ?? Infinity);
+      } else if (key === "firmware") {
+        result = a.firmware.localeCompare(b.firmware, undefined, { numeric: true });
+      } else {
+        result = a[key].localeCompare(b[key]);
+      }
+      return result || a.name.localeCompare(b.name);
+    });
+  }
+
+  private get _groupByArea(): boolean {
+    return this.filters.group === "area" && this._deviceRefs !== null;
+  }
+
   private get _groupedDevices(): Map<string, DeviceInfo[]> {
-    const sorted = [...this._filteredDevices].sort((a, b) =>
-      a.name.localeCompare(b.name)
-    );
     const groups = new Map<string, DeviceInfo[]>();
-    for (const device of sorted) {
-      const iface = device.interface_id.split("-").slice(1).join("-") || device.interface_id;
-      if (!groups.has(iface)) groups.set(iface, []);
-      groups.get(iface)!.push(device);
+    for (const device of this._sortedDevices) {
+      const group = this._groupByArea ? this._areaLabel(device) : this._interfaceLabel(device);
+      if (!groups.has(group)) groups.set(group, []);
+      groups.get(group)!.push(device);
+    }
+    if (!this._groupByArea) return groups;
+
+    // Areas alphabetically, unassigned devices last
+    const unassigned = this._l("device_list.unassigned_area");
+    return new Map(
+      [...groups.entries()].sort(([a], [b]) =>
+        a === unassigned ? 1 : b === unassigned ? -1 : a.localeCompare(b)
+      )
+    );
+  }
+
+  private _areaOf(device: DeviceInfo): HaArea | null {
+    return this._deviceRefs?.get(device.address)?.area ?? null;
+  }
+
+  private _areaLabel(device: DeviceInfo): string {
+    return this._areaOf(device)?.name ?? this._l("device_list.unassigned_area");
+  }
+
+  /** Areas that contain at least one device, sorted by name. */
+  private get _usedAreas(): HaArea[] {
+    const areas = new Map<string, HaArea>();
+    for (const device of this._devices) {
+      const area = this._areaOf(device);
+      if (area) areas.set(area.area_id, area);
     }
-    return groups;
+    return [...areas.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private _interfaceLabel(device: DeviceInfo): string {
+    return device.interface_id.split("-").slice(1).join("-") || device.interface_id;
   }
 
   private _handleEntryChanged(e: Event): void {
@@ -89,6 +262,68 @@ export class HmDeviceList extends LitElement {
     );
   }
 
+  private _handleBulkEdit(): void {
+    this.dispatchEvent(
+      new CustomEvent("bulk-edit", { bubbles: true, composed: true })
+    );
+  }
+
+  private _handleBackup(): void {
+    this.dispatchEvent(
+      new CustomEvent("show-backup", { bubbles: true, composed: true })
+    );
+  }
+
+  private _handleTopology(): void {
+    this.dispatchEvent(
+      new CustomEvent("show-topology", { bubbles: true, composed: true })
+    );
+  }
+
+  private _handleLinkHealth(): void {
+    this.dispatchEvent(
+      new CustomEvent("show-link-health", { bubbles: true, composed: true })
+    );
+  }
+
+  private _handleFleetHealth(): void {
+    this.dispatchEvent(
+      new CustomEvent("show-fleet-health", { bubbles: true, composed: true })
+    );
+  }
+
+  private _handleFirmware(): void {
+    this.dispatchEvent(
+      new CustomEvent("show-firmware", { bubbles: true, composed: true })
+    );
+  }
+
+  private _handleParamSearch(): void {
+    this.dispatchEvent(
+      new CustomEvent("show-param-search", { bubbles: true, composed: true })
+    );
+  }
+
+  private _handleConfigDrift(): void {
+    this.dispatchEvent(
+      new CustomEvent("show-config-drift", { bubbles: true, composed: true })
+    );
+  }
+
+  private _handleDesiredState(): void {
+    this.dispatchEvent(
+      new CustomEvent("show-desired-state", { bubbles: true, composed: true })
+    );
+  }
+
+  private _handleWriteQueue(): void {
+    this.dispatchEvent(new CustomEvent("show-write-queue", { bubbles: true, composed: true }));
+  }
+
+  private _handlePresets(): void {
+    this.dispatchEvent(new CustomEvent("show-presets", { bubbles: true, composed: true }));
+  }
+
   private _renderMaintenanceIcons(m: MaintenanceData) {
     if (!m || Object.keys(m).length === 0) return nothing;
     return html`
@@ -109,9 +344,49 @@ export class HmDeviceList extends LitElement {
   }
 
   render() {
+    const queued = this.entryId ? loadQueue(this.entryId).filter(isActive).length : 0;
     return html`
       <div class="panel-header">
         <h1>${this._l("device_list.title")}</h1>
+        ${this.entryId
+          ? html`
+              <div class="header-actions">
+                <button class="header-button" @click=${this._handleBulkEdit}>
+                  ${this._l("device_list.bulk_edit")}
+                </button>
+                <button class="header-button" @click=${this._handleBackup}>
+                  ${this._l("device_list.backup")}
+                </button>
+                <button class="header-button" @click=${this._handleTopology}>
+                  ${this._l("device_list.link_topology")}
+                </button>
+                <button class="header-button" @click=${this._handleLinkHealth}>
+                  ${this._l("device_list.link_health")}
+                </button>
+                <button class="header-button" @click=${this._handleFleetHealth}>
+                  ${this._l("device_list.fleet_health")}
+                </button>
+                <button class="header-button" @click=${this._handleFirmware}>
+                  ${this._l("device_list.firmware")}
+                </button>
+                <button class="header-button" @click=${this._handleParamSearch}>
+                  ${this._l("device_list.param_search")}
+                </button>
+                <button class="header-button" @click=${this._handleConfigDrift}>
+                  ${this._l("device_list.config_drift")}
+                </button>
+                <button class="header-button" @click=${this._handlePresets}>
+                  ${this._l("device_list.presets")}
+                </button>
+                <button class="header-button" @click=${this._handleDesiredState}>
+                  ${this._l("device_list.desired_state")}
+                </button>
+                <button class="header-button" @click=${this._handleWriteQueue}>
+                  ${this._l("device_list.write_queue")}${queued ? ` (${queued})` : ""}
+                </button>
+              </div>
+            `
+          : nothing}
       </div>
 
       ${this.entries.length > 1
@@ -142,13 +417,13 @@ export class HmDeviceList extends LitElement {
             <div class="search-bar">
               <input
                 type="text"
-                .value=${this._searchQuery}
-                @input=${(e: InputEvent) => {
-                  this._searchQuery = (e.target as HTMLInputElement).value;
-                }}
+                .value=${this.filters.q ?? ""}
+                @input=${(e: InputEvent) =>
+                  this._setFilter("q", (e.target as HTMLInputElement).value)}
                 placeholder=${this._l("device_list.search_placeholder")}
               />
             </div>
+            ${this._renderFilters()}
           `
         : nothing}
 
@@ -160,16 +435,168 @@ export class HmDeviceList extends LitElement {
             ? html`<div class="empty-state">${this._l("device_list.no_entry_selected")}</div>`
             : this._filteredDevices.length === 0
               ? html`<div class="empty-state">${this._l("device_list.no_devices")}</div>`
-              : this._renderDeviceGroups()}
+              : this.filters.layout === "table"
+                ? this._renderDeviceTable()
+                : this._renderDeviceGroups()}
+    `;
+  }
+
+  private _renderFilters() {
+    const interfaces = [...new Set(this._devices.map((d) => d.interface))].sort();
+    const models = [...new Set(this._devices.map((d) => d.model))].sort();
+    const { iface, model, area } = this.filters;
+    const hasLinkable = this._devices.some((d) => LINKABLE_INTERFACES.has(d.interface));
+
+    return html`
+      <div class="filter-bar">
+        <select
+          @change=${(e: Event) => this._setFilter("iface", (e.target as HTMLSelectElement).value)}
+        >
+          <option value="" ?selected=${!iface}>${this._l("device_list.all_interfaces")}</option>
+          ${interfaces.map(
+            (name) => html`<option value=${name} ?selected=${iface === name}>${name}</option>`
+          )}
+        </select>
+        <select
+          @change=${(e: Event) => this._setFilter("model", (e.target as HTMLSelectElement).value)}
+        >
+          <option value="" ?selected=${!model}>${this._l("device_list.all_models")}</option>
+          ${models.map(
+            (name) => html`<option value=${name} ?selected=${model === name}>${name}</option>`
+          )}
+        </select>
+        ${this._deviceRefs
+          ? html`
+              <select
+                @change=${(e: Event) =>
+                  this._setFilter("area", (e.target as HTMLSelectElement).value)}
+              >
+                <option value="" ?selected=${!area}>${this._l("device_list.all_areas")}</option>
+                ${this._usedAreas.map(
+                  (a) => html`
+                    <option value=${a.area_id} ?selected=${area === a.area_id}>${a.name}</option>
+                  `
+                )}
+                <option value=${UNASSIGNED_AREA} ?selected=${area === UNASSIGNED_AREA}>
+                  ${this._l("device_list.unassigned_area")}
+                </option>
+              </select>
+              <select
+                @change=${(e: Event) =>
+                  this._setFilter("group", (e.target as HTMLSelectElement).value)}
+              >
+                <option value="" ?selected=${!this._groupByArea}>
+                  ${this._l("device_list.group_interface")}
+                </option>
+                <option value="area" ?selected=${this._groupByArea}>
+                  ${this._l("device_list.group_area")}
+                </option>
+              </select>
+            `
+          : nothing}
+        <select
+          @change=${(e: Event) => {
+            const value = (e.target as HTMLSelectElement).value;
+            this._setFilter("sort", value === "name" ? "" : value);
+          }}
+        >
+          ${SORT_KEYS.map(
+            (key) => html`
+              <option value=${key} ?selected=${this._sortKey === key}>
+                ${this._l(`device_list.sort_${key}`)}
+              </option>
+            `
+          )}
+        </select>
+        <div class="layout-toggle">
+          <button
+            class="chip ${this.filters.layout !== "table" ? "active" : ""}"
+            @click=${() => this._setFilter("layout", "")}
+          >
+            ${this._l("device_list.layout_list")}
+          </button>
+          <button
+            class="chip ${this.filters.layout === "table" ? "active" : ""}"
+            @click=${() => this._setFilter("layout", "table")}
+          >
+            ${this._l("device_list.layout_table")}
+          </button>
+        </div>
+      </div>
+      <div class="chip-bar">
+        ${STATUS_FILTERS.filter((status) => status !== "has_links" || hasLinkable).map(
+          (status) => html`
+            <button
+              class="chip ${this.filters[status] ? "active" : ""}"
+              @click=${() => this._setFilter(status, this.filters[status] ? "" : "1")}
+            >
+              ${this._l(`device_list.filter_${status}`)}
+            </button>
+          `
+        )}
+        ${this._linksProgress
+          ? html`
+              <span class="chip-progress">
+                ${this._l("device_list.reading_links", {
+                  done: this._linksProgress.done,
+                  total: this._linksProgress.total,
+                })}
+              </span>
+            `
+          : nothing}
+        <span class="result-count">
+          ${this._l("device_list.result_count", {
+            count: this._filteredDevices.length,
+            total: this._devices.length,
+          })}
+        </span>
+      </div>
+    `;
+  }
+
+  private _renderDeviceTable() {
+    return html`
+      <div class="table-wrapper">
+        <table class="device-table">
+          <thead>
+            <tr>
+              <th>${this._l("device_list.column_name")}</th>
+              <th>${this._l("device_list.column_model")}</th>
+              <th>${this._l("device_list.column_address")}</th>
+              <th>${this._l("device_list.column_interface")}</th>
+              ${this._deviceRefs ? html`<th>${this._l("device_list.column_area")}</th>` : nothing}
+              <th>${this._l("device_list.column_firmware")}</th>
+              <th>${this._l("device_list.column_rssi")}</th>
+              <th>${this._l("device_list.column_status")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${this._sortedDevices.map(
+              (device) => html`
+                <tr @click=${() => this._handleDeviceClick(device)}>
+                  <td class="device-name">${device.name}</td>
+                  <td>${device.model}</td>
+                  <td class="device-address">${device.address}</td>
+                  <td>${this._interfaceLabel(device)}</td>
+                  ${this._deviceRefs ? html`<td>${this._areaLabel(device)}</td>` : nothing}
+                  <td>${device.firmware}</td>
+                  <td>${deviceRssi(device) ?? "\u2014"}</td>
+                  <td>${this._renderMaintenanceIcons(device.maintenance)}</td>
+                </tr>
+              `
+            )}
+          </tbody>
+        </table>
+      </div>
     `;
   }
 
   private _renderDeviceGroups() {
     return html`
       ${Array.from(this._groupedDevices.entries()).map(
-        ([interfaceId, devices]) => html`
+        ([group, devices]) => html`
           <div class="interface-group">
-            <div class="interface-header">${interfaceId}</div>
+            <div class="interface-header">${group}</div>
             ${devices.map(
               (device) => html`
                 <div
@@ -206,6 +633,29 @@ export class HmDeviceList extends LitElement {
         font-weight: 400;
       }
 
+      .header-actions {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 8px;
+        margin-bottom: 16px;
+      }
+
+      .header-button {
+        background: none;
+        border: 1px solid var(--primary-color, #03a9f4);
+        color: var(--primary-color, #03a9f4);
+        padding: 4px 12px;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 13px;
+        font-family: inherit;
+      }
+
+      .header-button:hover {
+        background: var(--primary-color, #03a9f4);
+        color: #fff;
+      }
+
       .entry-selector {
         margin-bottom: 16px;
       }
@@ -231,6 +681,104 @@ export class HmDeviceList extends LitElement {
         margin-bottom: 16px;
       }
 
+      .filter-bar {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 8px;
+        margin-bottom: 8px;
+      }
+
+      .filter-bar select {
+        padding: 6px 8px;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 4px;
+        font-size: 13px;
+        font-family: inherit;
+        background: var(--card-background-color, #fff);
+        color: var(--primary-text-color);
+      }
+
+      .layout-toggle {
+        display: flex;
+        gap: 4px;
+        margin-left: auto;
+      }
+
+      .chip-bar {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 6px;
+        margin-bottom: 16px;
+      }
+
+      .chip {
+        background: none;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        color: var(--primary-text-color);
+        padding: 4px 12px;
+        border-radius: 16px;
+        cursor: pointer;
+        font-size: 13px;
+        font-family: inherit;
+      }
+
+      .chip.active {
+        background: var(--primary-color, #03a9f4);
+        border-color: var(--primary-color, #03a9f4);
+        color: #fff;
+      }
+
+      .chip-progress,
+      .result-count {
+        font-size: 12px;
+        color: var(--secondary-text-color);
+      }
+
+      .result-count {
+        margin-left: auto;
+      }
+
+      .table-wrapper {
+        overflow-x: auto;
+      }
+
+      .device-table {
+        width: 100%;
+        border-collapse: collapse;
+        font-size: 13px;
+      }
+
+      .device-table th {
+        text-align: left;
+        font-weight: 500;
+        color: var(--secondary-text-color);
+        padding: 8px;
+        border-bottom: 1px solid var(--divider-color, #e0e0e0);
+        white-space: nowrap;
+      }
+
+      .device-table td {
+        padding: 8px;
+        border-bottom: 1px solid var(--divider-color, #e0e0e0);
+      }
+
+      .device-table tbody tr {
+        cursor: pointer;
+      }
+
+      .device-table tbody tr:hover {
+        background-color: var(--secondary-background-color, #f5f5f5);
+      }
+
+      .device-table .device-address {
+        font-family: monospace;
+      }
+
+      .device-table .device-status {
+        margin-right: 0;
+      }
+
       .search-bar input {
         width: 100%;
         padding: 8px 12px;
@@ -311,6 +859,10 @@ export class HmDeviceList extends LitElement {
       }
 
       @media (max-width: 600px) {
+        .layout-toggle {
+          margin-left: 0;
+        }
+
         .device-card {
           flex-wrap: wrap;
         }
@@ -0,0 +1,634 @@
+import { LitElement, html, css, nothing } from "lit";
+import { property, state } from "lit/decorators.js";
+import { safeCustomElement } from "../safe-element";
+import { sharedStyles } from "../styles";
+import { listDevices } from "../api";
+import { localize } from "../localize";
+import { showConfirmationDialog, showToast } from "../ha-helpers";
+import { mapChannels, planReplacement, applyReplaceItem } from "../device-replace";
+import { channelNumberOf } from "../device-utils";
+import { formatValue } from "../paramset-diff";
+import type { ReplaceItem } from "../device-replace";
+import type { HomeAssistant, DeviceInfo } from "../types";
+
+type WizardStep = "select-device" | "review";
+
+interface Progress {
+  done: number;
+  total: number;
+}
+
+@safeCustomElement("hm-device-replace")
+export class HmDeviceReplace extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+  @property() public entryId = "";
+  @property() public deviceAddress = "";
+
+  @state() private _step: WizardStep = "select-device";
+  @state() private _devices: DeviceInfo[] = [];
+  @state() private _newAddress = "";
+  @state() private _loading = true;
+  @state() private _error = "";
+  @state() private _planProgress: Progress | null = null;
+  @state() private _items: ReplaceItem[] = [];
+  @state() private _selected: Set<string> = new Set();
+  @state() private _removeOldLinks = false;
+  @state() private _applying = false;
+  @state() private _results: Map<string, boolean> = new Map();
+
+  updated(changedProps: Map<string, unknown>): void {
+    if (
+      (changedProps.has("entryId") || changedProps.has("deviceAddress")) &&
+      this.entryId &&
+      this.deviceAddress
+    ) {
+      this._fetchDevices();
+    }
+  }
+
+  private async _fetchDevices(): Promise<void> {
+    this._loading = true;
+    this._error = "";
+    this._step = "select-device";
+    this._newAddress = "";
+    try {
+      this._devices = await listDevices(this.hass, this.entryId);
+    } catch (err) {
+      this._error = String(err);
+    } finally {
+      this._loading = false;
+    }
+  }
+
+  private _l(key: string, params?: Record<string, string | number>): string {
+    return localize(this.hass, key, params);
+  }
+
+  private get _oldDevice(): DeviceInfo | undefined {
+    return this._devices.find((d) => d.address === this.deviceAddress);
+  }
+
+  private get _newDevice(): DeviceInfo | undefined {
+    return this._devices.find((d) => d.address === this._newAddress);
+  }
+
+  /** Devices of the same model and interface that can take over the configuration. */
+  private get _candidates(): DeviceInfo[] {
+    const old = this._oldDevice;
+    if (!old) return [];
+    return this._devices
+      .filter(
+        (d) =>
+          d.address !== old.address && d.model === old.model && d.interface === old.interface
+      )
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private _handleBack(): void {
+    if (this._step === "review" && !this._applying) {
+      this._step = "select-device";
+      this._error = "";
+      return;
+    }
+    this.dispatchEvent(new CustomEvent("back", { bubbles: true, composed: true }));
+  }
+
+  private async _handleNextToReview(): Promise<void> {
+    const oldDevice = this._oldDevice;
+    const newDevice = this._newDevice;
+    if (!oldDevice || !newDevice) return;
+
+    this._step = "review";
+    this._error = "";
+    this._items = [];
+    this._results = new Map();
+    this._planProgress = { done: 0, total: 1 };
+    try {
+      this._items = await planReplacement(
+        this.hass,
+        this.entryId,
+        oldDevice,
+        newDevice,
+        (done, total) => (this._planProgress = { done, total })
+      );
+      this._selected = new Set(
+        this._items.filter((item) => !item.error).map((item) => item.key)
+      );
+    } catch (err) {
+      this._error = String(err);
+    } finally {
+      this._planProgress = null;
+    }
+  }
+
+  private _toggleItem(key: string): void {
+    const next = new Set(this._selected);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    this._selected = next;
+  }
+
+  private async _handleApply(): Promise<void> {
+    const newDevice = this._newDevice;
+    if (!newDevice || this._selected.size === 0 || this._applying) return;
+
+    const confirmed = await showConfirmationDialog(this, {
+      title: this._l("device_replace.confirm_title"),
+      text: this._l(
+        this._removeOldLinks
+          ? "device_replace.confirm_text_remove"
+          : "device_replace.confirm_text",
+        { count: this._selected.size, device: newDevice.name || newDevice.address }
+      ),
+      confirmText: this._l("device_replace.apply"),
+      dismissText: this._l("common.cancel"),
+      destructive: this._removeOldLinks,
+    });
+    if (!confirmed) return;
+
+    this._applying = true;
+    this._results = new Map();
+    let failed = 0;
+    for (const item of this._items) {
+      if (!this._selected.has(item.key)) continue;
+      let success = false;
+      try {
+        success = await applyReplaceItem(
+          this.hass,
+          this.entryId,
+          newDevice,
+          item,
+          this._removeOldLinks
+        );
+      } catch {
+        success = false;
+      }
+      if (!success) failed++;
+      this._results = new Map(this._results).set(item.key, success);
+    }
+    this._applying = false;
+    showToast(this, {
+      message: failed
+        ? this._l("device_replace.apply_partial", { failed })
+        : this._l("device_replace.apply_success"),
+    });
+  }
+
+  private _handleOpenNewDevice(): void {
+    const newDevice = this._newDevice;
+    if (!newDevice) return;
+    this.dispatchEvent(
+      new CustomEvent("device-selected", {
+        detail: { device: newDevice.address, interfaceId: newDevice.interface_id },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  render() {
+    if (this._loading) {
+      return html`<div class="loading">${this._l("common.loading")}</div>`;
+    }
+    if (this._error) {
+      return html`
+        <button class="back-button" @click=${this._handleBack}>
+          \u25C2 ${this._l("common.back")}
+        </button>
+        <div class="error">${this._error}</div>
+      `;
+    }
+    const oldDevice = this._oldDevice;
+    if (!oldDevice) {
+      return html`<div class="error">${this._l("device_detail.not_found")}</div>`;
+    }
+
+    return html`
+      <button class="back-button" @click=${this._handleBack}>
+        \u25C2 ${this._l("common.back")}
+      </button>
+
+      <div class="wizard-header">
+        <h2>${this._l("device_replace.title")}</h2>
+        <div class="device-info">
+          ${oldDevice.name} (${oldDevice.model}) \u2014 ${oldDevice.address}
+        </div>
+      </div>
+
+      ${this._step === "select-device"
+        ? this._renderStepDevice()
+        : this._renderStepReview(oldDevice)}
+    `;
+  }
+
+  private _renderStepDevice() {
+    const candidates = this._candidates;
+
+    return html`
+      <div class="step-indicator">${this._l("device_replace.step_device")}</div>
+      <div class="step-description">${this._l("device_replace.select_device")}</div>
+
+      ${candidates.length === 0
+        ? html`<div class="empty-state">${this._l("device_replace.no_candidates")}</div>`
+        : html`
+            <div class="radio-list">
+              ${candidates.map((device) => {
+                const isSelected = this._newAddress === device.address;
+                return html`
+                  <label class="radio-option ${isSelected ? "selected" : ""}">
+                    <input
+                      type="radio"
+                      name="new-device"
+                      .checked=${isSelected}
+                      @change=${() => (this._newAddress = device.address)}
+                    />
+                    <div>
+                      <div class="radio-title">${device.name}</div>
+                      <div class="radio-subtitle">
+                        ${device.address} \u2014 ${device.firmware}
+                      </div>
+                    </div>
+                  </label>
+                `;
+              })}
+            </div>
+            <div class="wizard-actions">
+              <button
+                class="btn btn-primary"
+                ?disabled=${!this._newAddress}
+                @click=${this._handleNextToReview}
+              >
+                ${this._l("add_link.next")} \u25B8
+              </button>
+            </div>
+          `}
+    `;
+  }
+
+  private _renderStepReview(oldDevice: DeviceInfo) {
+    const newDevice = this._newDevice!;
+    const mappings = mapChannels(oldDevice, newDevice);
+    const paramsetItems = this._items.filter((item) => item.kind === "paramset");
+    const linkItems = this._items.filter((item) => item.kind === "link");
+
+    return html`
+      <div class="step-indicator">${this._l("device_replace.step_review")}</div>
+
+      <div class="section-title">${this._l("device_replace.channel_mapping")}</div>
+      <div class="mapping-list">
+        ${mappings.map(
+          ({ oldChannel, newChannel }) => html`
+            <div class="mapping-row ${newChannel ? "" : "unmapped"}">
+              <span class="mapping-address">${oldChannel.address}</span>
+              <span class="mapping-arrow">\u2192</span>
+              <span class="mapping-address">
+                ${newChannel?.address ?? this._l("device_replace.unmapped")}
+              </span>
+              <span class="mapping-type">
+                ${this._l("device_detail.channel")} ${channelNumberOf(oldChannel.address)}:
+                ${oldChannel.channel_type}
+              </span>
+            </div>
+          `
+        )}
+      </div>
+
+      ${this._planProgress
+        ? html`
+            <div class="progress">
+              <progress
+                max=${this._planProgress.total}
+                .value=${this._planProgress.done}
+              ></progress>
+              <span>${this._l("device_replace.plan_progress")}</span>
+            </div>
+          `
+        : html`
+            <div class="section-title">${this._l("device_replace.paramsets")}</div>
+            ${paramsetItems.length === 0
+              ? html`<div class="empty-state">${this._l("device_replace.no_paramset_changes")}</div>`
+              : paramsetItems.map((item) => this._renderItem(item))}
+
+            <div class="section-title">${this._l("device_replace.links")}</div>
+            ${linkItems.length === 0
+              ? html`<div class="empty-state">${this._l("device_replace.no_links")}</div>`
+              : html`
+                  ${linkItems.map((item) => this._renderItem(item))}
+                  <label class="remove-option">
+                    <input
+                      type="checkbox"
+                      .checked=${this._removeOldLinks}
+                      ?disabled=${this._applying}
+                      @change=${(e: Event) =>
+                        (this._removeOldLinks = (e.target as HTMLInputElement).checked)}
+                    />
+                    ${this._l("device_replace.remove_old_links")}
+                  </label>
+                `}
+
+            <div class="wizard-actions">
+              ${this._results.size > 0
+                ? html`
+                    <button class="btn btn-secondary" @click=${this._handleOpenNewDevice}>
+                      ${this._l("device_replace.open_new_device")}
+                    </button>
+                  `
+                : nothing}
+              <button
+                class="btn btn-primary"
+                ?disabled=${this._selected.size === 0 || this._applying}
+                @click=${this._handleApply}
+              >
+                ${this._applying
+                  ? this._l("device_replace.applying")
+                  : this._l("device_replace.apply_selected", { count: this._selected.size })}
+              </button>
+            </div>
+          `}
+    `;
+  }
+
+  private _renderItem(item: ReplaceItem) {
+    const result = this._results.get(item.key);
+    const title =
+      item.kind === "paramset"
+        ? this._l("device_replace.item_paramset", {
+            from: item.oldAddress ?? "",
+            to: item.newAddress ?? "",
+          })
+        : !item.link
+          ? this._l("device_replace.links_unreadable")
+          : this._l(
+            item.linkExists ? "device_replace.item_link_update" : "device_replace.item_link_create",
+            { sender: item.newSender ?? "", receiver: item.newReceiver ?? "" }
+          );
+
+    return html`
+      <div class="plan-item">
+        <label class="plan-item-header">
+          <input
+            type="checkbox"
+            .checked=${this._selected.has(item.key)}
+            ?disabled=${Boolean(item.error) || this._applying}
+            @change=${() => this._toggleItem(item.key)}
+          />
+          <span class="plan-item-title">${title}</span>
+          ${result !== undefined
+            ? html`
+                <span class="result-badge ${result ? "success" : "failed"}">
+                  ${this._l(result ? "device_replace.result_success" : "device_replace.result_failed")}
+                </span>
+              `
+            : nothing}
+        </label>
+        ${item.kind === "link" && item.link
+          ? html`
+              <div class="plan-item-meta">
+                ${this._l("device_replace.replaces_link", {
+                  sender: item.link.sender_address,
+                  receiver: item.link.receiver_address,
+                })}
+                ${item.link.name ? html`\u2014 ${item.link.name}` : nothing}
+              </div>
+            `
+          : nothing}
+        ${item.error ? html`<div class="validation-error">${item.error}</div>` : nothing}
+        ${item.changes.length > 0
+          ? html`
+              <div class="plan-item-meta">
+                ${this._l("device_replace.values_to_write", { count: item.changes.length })}:
+                ${item.changes
+                  .map((c) => `${c.parameter} = ${formatValue(undefined, c.new)}`)
+                  .join(", ")}
+              </div>
+            `
+          : nothing}
+      </div>
+    `;
+  }
+
+  static styles = [
+    sharedStyles,
+    css`
+      .wizard-header {
+        margin-bottom: 16px;
+      }
+
+      .wizard-header h2 {
+        margin: 8px 0 4px;
+        font-size: 20px;
+        font-weight: 400;
+      }
+
+      .step-indicator {
+        font-size: 13px;
+        color: var(--secondary-text-color);
+        margin-bottom: 4px;
+        font-weight: 500;
+      }
+
+      .step-description {
+        font-size: 14px;
+        margin-bottom: 16px;
+      }
+
+      .section-title {
+        font-size: 14px;
+        font-weight: 500;
+        margin: 16px 0 8px;
+      }
+
+      .radio-list {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+      }
+
+      .radio-option {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        padding: 12px;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 8px;
+        cursor: pointer;
+      }
+
+      .radio-option.selected {
+        border-color: var(--primary-color, #03a9f4);
+        background: rgba(3, 169, 244, 0.05);
+      }
+
+      .radio-title {
+        font-size: 14px;
+        font-weight: 500;
+      }
+
+      .radio-subtitle {
+        font-size: 12px;
+        color: var(--secondary-text-color);
+        font-family: monospace;
+        margin-top: 2px;
+      }
+
+      .mapping-list {
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 8px;
+      }
+
+      .mapping-row {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 8px;
+        padding: 6px 12px;
+        font-size: 13px;
+        border-bottom: 1px solid var(--divider-color, #e0e0e0);
+      }
+
+      .mapping-row:last-child {
+        border-bottom: none;
+      }
+
+      .mapping-row.unmapped {
+        color: var(--warning-color, #ff9800);
+      }
+
+      .mapping-address {
+        font-family: monospace;
+      }
+
+      .mapping-arrow {
+        color: var(--primary-color, #03a9f4);
+      }
+
+      .mapping-type {
+        margin-left: auto;
+        color: var(--secondary-text-color);
+      }
+
+      .progress {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        margin: 16px 0;
+        font-size: 13px;
+        color: var(--secondary-text-color);
+      }
+
+      .progress progress {
+        flex: 1;
+      }
+
+      .plan-item {
+        padding: 8px 12px;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 8px;
+        margin-bottom: 8px;
+      }
+
+      .plan-item-header {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        font-size: 13px;
+        cursor: pointer;
+      }
+
+      .plan-item-title {
+        flex: 1;
+        font-family: monospace;
+      }
+
+      .plan-item-meta {
+        font-size: 12px;
+        color: var(--secondary-text-color);
+        margin: 4px 0 0 26px;
+        word-break: break-word;
+      }
+
+      .remove-option {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        margin-top: 8px;
+        font-size: 14px;
+        cursor: pointer;
+      }
+
+      .result-badge {
+        font-size: 11px;
+        padding: 2px 8px;
+        border-radius: 12px;
+        color: #fff;
+        text-transform: uppercase;
+        flex-shrink: 0;
+      }
+
+      .result-badge.success {
+        background: var(--success-color, #43a047);
+      }
+
+      .result-badge.failed {
+        background: var(--error-color, #db4437);
+      }
+
+      .wizard-actions {
+        display: flex;
+        justify-content: flex-end;
+        gap: 8px;
+        margin-top: 16px;
+        padding-top: 16px;
+        border-top: 1px solid var(--divider-color, #e0e0e0);
+      }
+
+      .btn {
+        padding: 8px 20px;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 14px;
+        font-family: inherit;
+        border: 1px solid transparent;
+      }
+
+      .btn:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      .btn-primary {
+        background: var(--primary-color, #03a9f4);
+        color: #fff;
+        border-color: var(--primary-color, #03a9f4);
+      }
+
+      .btn-primary:hover:not(:disabled) {
+        opacity: 0.9;
+      }
+
+      .btn-secondary {
+        background: transparent;
+        color: var(--primary-text-color);
+        border-color: var(--divider-color, #e0e0e0);
+      }
+
+      .btn-secondary:hover:not(:disabled) {
+        background: var(--secondary-background-color, #f5f5f5);
+      }
+
+      @media (max-width: 600px) {
+        .mapping-type {
+          margin-left: 0;
+          width: 100%;
+        }
+
+        .wizard-actions {
+          flex-direction: column;
+        }
+      }
+    `,
+  ];
+}
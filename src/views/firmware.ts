@@ -0,0 +1,494 @@
+import { LitElement, html, css, nothing } from "lit";
+import { property, state } from "lit/decorators.js";
+import { safeCustomElement } from "../safe-element";
+import { sharedStyles } from "../styles";
+import { listFirmware, updateFirmware } from "../api";
+import { localize } from "../localize";
+import { showConfirmationDialog, showToast } from "../ha-helpers";
+import {
+  FIRMWARE_POLL_INTERVAL,
+  canUpdate,
+  firmwareStatus,
+  groupByModel,
+  updateOutcome,
+} from "../firmware";
+import type { RunningUpdate } from "../firmware";
+import type { HomeAssistant, FirmwareInfo } from "../types";
+
+@safeCustomElement("hm-firmware")
+export class HmFirmware extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+  @property() public entryId = "";
+
+  @state() private _devices: FirmwareInfo[] = [];
+  @state() private _loading = true;
+  @state() private _error = "";
+  @state() private _onlyUpdates = false;
+  @state() private _selected: Set<string> = new Set();
+  @state() private _starting = false;
+  @state() private _running: Map<string, RunningUpdate> = new Map();
+  @state() private _finished: Map<string, boolean> = new Map();
+
+  private _pollTimer?: number;
+
+  connectedCallback(): void {
+    super.connectedCallback();
+    if (this._running.size > 0) this._startPolling();
+  }
+
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this._stopPolling();
+  }
+
+  updated(changedProps: Map<string, unknown>): void {
+    if (changedProps.has("entryId") && this.entryId) {
+      this._running = new Map();
+      this._finished = new Map();
+      this._stopPolling();
+      this._fetchFirmware();
+    }
+  }
+
+  private async _fetchFirmware(): Promise<void> {
+    this._loading = true;
+    this._error = "";
+    try {
+      this._devices = await listFirmware(this.hass, this.entryId);
+      this._selected = new Set();
+    } catch (err) {
+      this._error = String(err);
+    } finally {
+      this._loading = false;
+    }
+  }
+
+  private _startPolling(): void {
+    if (this._pollTimer !== undefined) return;
+    this._pollTimer = window.setInterval(() => this._poll(), FIRMWARE_POLL_INTERVAL);
+  }
+
+  private _stopPolling(): void {
+    if (this._pollTimer === undefined) return;
+    window.clearInterval(this._pollTimer);
+    this._pollTimer = undefined;
+  }
+
+  private async _poll(): Promise<void> {
+    try {
+      this._devices = await listFirmware(this.hass, this.entryId);
+    } catch {
+      // Keep polling; the CCU may be busy while delivering firmware
+      return;
+    }
+    const byAddress = new Map(this._devices.map((d) => [d.address, d]));
+    const running = new Map(this._running);
+    const finished = new Map(this._finished);
+    const now = Date.now();
+    for (const [address, update] of this._running) {
+      const outcome = updateOutcome(update, byAddress.get(address), now);
+      if (outcome === "running") continue;
+      running.delete(address);
+      finished.set(address, outcome === "done");
+    }
+    this._running = running;
+    this._finished = finished;
+    if (running.size === 0) this._stopPolling();
+  }
+
+  private _l(key: string, params?: Record<string, string | number>): string {
+    return localize(this.hass, key, params);
+  }
+
+  private _handleBack(): void {
+    this.dispatchEvent(new CustomEvent("back", { bubbles: true, composed: true }));
+  }
+
+  private _isSelectable(device: FirmwareInfo): boolean {
+    return canUpdate(device) && !this._running.has(device.address);
+  }
+
+  private _toggle(address: string): void {
+    const next = new Set(this._selected);
+    if (next.has(address)) {
+      next.delete(address);
+    } else {
+      next.add(address);
+    }
+    this._selected = next;
+  }
+
+  private _toggleGroup(devices: FirmwareInfo[], select: boolean): void {
+    const next = new Set(this._selected);
+    for (const device of devices.filter((d) => this._isSelectable(d))) {
+      if (select) {
+        next.add(device.address);
+      } else {
+        next.delete(device.address);
+      }
+    }
+    this._selected = next;
+  }
+
+  private async _handleUpdate(devices: FirmwareInfo[]): Promise<void> {
+    if (devices.length === 0 || this._starting) return;
+    const confirmed = await showConfirmationDialog(this, {
+      title: this._l("firmware.confirm_title"),
+      text: this._l("firmware.confirm_text", { count: devices.length }),
+      confirmText: this._l("firmware.update"),
+      dismissText: this._l("common.cancel"),
+    });
+    if (!confirmed) return;
+
+    this._starting = true;
+    const running = new Map(this._running);
+    const finished = new Map(this._finished);
+    let failed = 0;
+    for (const device of devices) {
+      finished.delete(device.address);
+      try {
+        const result = await updateFirmware(
+          this.hass,
+          this.entryId,
+          device.interface_id,
+          device.address
+        );
+        if (!result.success) throw new Error("update rejected");
+        running.set(device.address, { fromVersion: device.firmware, startedAt: Date.now() });
+      } catch {
+        finished.set(device.address, false);
+        failed++;
+      }
+    }
+    this._running = running;
+    this._finished = finished;
+    this._selected = new Set([...this._selected].filter((a) => !running.has(a)));
+    this._starting = false;
+    if (running.size > 0) this._startPolling();
+
+    showToast(this, {
+      message: this._l("firmware.started", {
+        started: devices.length - failed,
+        failed,
+      }),
+    });
+  }
+
+  render() {
+    const visible = this._onlyUpdates
+      ? this._devices.filter(
+          (d) =>
+            firmwareStatus(d) !== "up_to_date" ||
+            this._running.has(d.address) ||
+            this._finished.has(d.address)
+        )
+      : this._devices;
+    const selectedDevices = this._devices.filter((d) => this._selected.has(d.address));
+    const available = this._devices.filter((d) => firmwareStatus(d) === "available").length;
+
+    return html`
+      <button class="back-button" @click=${this._handleBack}>
+        \u25C2 ${this._l("common.back")}
+      </button>
+
+      <div class="firmware-header">
+        <h2>${this._l("firmware.title")}</h2>
+        <div class="device-info">${this._l("firmware.subtitle")}</div>
+      </div>
+
+      ${this._loading
+        ? html`<div class="loading">${this._l("common.loading")}</div>`
+        : this._error
+          ? html`<div class="error">${this._error}</div>`
+          : html`
+              <div class="firmware-summary">
+                <span>
+                  ${this._l("firmware.summary", {
+                    devices: this._devices.length,
+                    available,
+                    running: this._running.size,
+                  })}
+                </span>
+                <label class="only-updates">
+                  <input
+                    type="checkbox"
+                    .checked=${this._onlyUpdates}
+                    @change=${(e: Event) =>
+                      (this._onlyUpdates = (e.target as HTMLInputElement).checked)}
+                  />
+                  ${this._l("firmware.only_updates")}
+                </label>
+              </div>
+              ${visible.length === 0
+                ? html`<div class="empty-state">${this._l("firmware.no_devices")}</div>`
+                : Array.from(groupByModel(visible).entries()).map(([model, devices]) =>
+                    this._renderGroup(model, devices)
+                  )}
+              <div class="action-bar">
+                <button
+                  class="btn btn-primary"
+                  ?disabled=${selectedDevices.length === 0 || this._starting}
+                  @click=${() => this._handleUpdate(selectedDevices)}
+                >
+                  ${this._starting
+                    ? this._l("firmware.starting")
+                    : this._l("firmware.update_selected", { count: selectedDevices.length })}
+                </button>
+              </div>
+            `}
+    `;
+  }
+
+  private _renderGroup(model: string, devices: FirmwareInfo[]) {
+    const selectable = devices.filter((d) => this._isSelectable(d));
+    const allSelected =
+      selectable.length > 0 && selectable.every((d) => this._selected.has(d.address));
+
+    return html`
+      <div class="model-group">
+        <div class="model-header">
+          <span>${model}</span>
+          ${selectable.length > 0
+            ? html`
+                <button
+                  class="link-button"
+                  @click=${() => this._toggleGroup(devices, !allSelected)}
+                >
+                  ${allSelected
+                    ? this._l("channel_picker.select_none")
+                    : this._l("channel_picker.select_all")}
+                </button>
+              `
+            : nothing}
+        </div>
+        ${devices.map((device) => this._renderDevice(device))}
+      </div>
+    `;
+  }
+
+  private _renderDevice(device: FirmwareInfo) {
+    const status = firmwareStatus(device);
+    const running = this._running.has(device.address);
+    const finished = this._finished.get(device.address);
+
+    return html`
+      <div class="firmware-row">
+        <input
+          type="checkbox"
+          .checked=${this._selected.has(device.address)}
+          ?disabled=${!this._isSelectable(device) || this._starting}
+          @change=${() => this._toggle(device.address)}
+        />
+        <div class="firmware-device">
+          <div class="firmware-name">${device.name}</div>
+          <div class="firmware-address">${device.address}</div>
+        </div>
+        <div class="firmware-versions">
+          <span>${device.firmware}</span>
+          ${device.available_firmware && device.available_firmware !== device.firmware
+            ? html`<span class="firmware-arrow">\u2192</span><span>${device.available_firmware}</span>`
+            : nothing}
+        </div>
+        ${running
+          ? html`
+              <span class="status-badge updating" title=${device.firmware_update_state}>
+                ${this._l("firmware.status_running")}
+              </span>
+            `
+          : finished !== undefined
+            ? html`
+                <span class="status-badge ${finished ? "done" : "failed"}">
+                  ${this._l(finished ? "firmware.status_done" : "firmware.status_failed")}
+                </span>
+              `
+            : html`
+                <span class="status-badge ${status}" title=${device.firmware_update_state}>
+                  ${this._l(`firmware.status_${status}`)}
+                </span>
+              `}
+        <button
+          class="update-button"
+          ?disabled=${!this._isSelectable(device) || this._starting}
+          @click=${() => this._handleUpdate([device])}
+        >
+          ${this._l("firmware.update")}
+        </button>
+      </div>
+    `;
+  }
+
+  static styles = [
+    sharedStyles,
+    css`
+      .firmware-header {
+        margin-bottom: 16px;
+      }
+
+      .firmware-header h2 {
+        margin: 8px 0 4px;
+        font-size: 20px;
+        font-weight: 400;
+      }
+
+      .firmware-summary {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        justify-content: space-between;
+        gap: 8px;
+        margin-bottom: 12px;
+        font-size: 14px;
+      }
+
+      .only-updates {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        font-size: 13px;
+        cursor: pointer;
+      }
+
+      .model-group {
+        margin-bottom: 16px;
+      }
+
+      .model-header {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        font-size: 14px;
+        font-weight: 500;
+        color: var(--secondary-text-color);
+        padding: 8px 0;
+        border-bottom: 1px solid var(--divider-color);
+        margin-bottom: 4px;
+      }
+
+      .link-button {
+        background: none;
+        border: none;
+        color: var(--primary-color, #03a9f4);
+        cursor: pointer;
+        font-size: 13px;
+        font-family: inherit;
+        padding: 0;
+      }
+
+      .firmware-row {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        padding: 8px;
+        border-bottom: 1px solid var(--divider-color, #e0e0e0);
+      }
+
+      .firmware-device {
+        flex: 1;
+        min-width: 0;
+      }
+
+      .firmware-name {
+        font-size: 14px;
+        font-weight: 500;
+      }
+
+      .firmware-address {
+        font-family: monospace;
+        font-size: 12px;
+        color: var(--secondary-text-color);
+        margin-top: 2px;
+      }
+
+      .firmware-versions {
+        display: flex;
+        gap: 6px;
+        font-family: monospace;
+        font-size: 13px;
+      }
+
+      .firmware-arrow {
+        color: var(--primary-color, #03a9f4);
+      }
+
+      .status-badge {
+        font-size: 11px;
+        padding: 2px 8px;
+        border-radius: 12px;
+        color: #fff;
+        text-transform: uppercase;
+        flex-shrink: 0;
+        background: var(--secondary-text-color, #757575);
+      }
+
+      .status-badge.up_to_date,
+      .status-badge.done {
+        background: var(--success-color, #43a047);
+      }
+
+      .status-badge.available,
+      .status-badge.updating {
+        background: var(--warning-color, #ff9800);
+      }
+
+      .status-badge.failed {
+        background: var(--error-color, #db4437);
+      }
+
+      .update-button {
+        background: none;
+        border: 1px solid var(--primary-color, #03a9f4);
+        color: var(--primary-color, #03a9f4);
+        padding: 4px 12px;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 13px;
+        font-family: inherit;
+      }
+
+      .update-button:hover:not(:disabled) {
+        background: var(--primary-color, #03a9f4);
+        color: #fff;
+      }
+
+      .update-button:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      .btn {
+        padding: 8px 20px;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 14px;
+        font-family: inherit;
+        border: 1px solid transparent;
+      }
+
+      .btn:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      .btn-primary {
+        background: var(--primary-color, #03a9f4);
+        color: #fff;
+        border-color: var(--primary-color, #03a9f4);
+      }
+
+      .btn-primary:hover:not(:disabled) {
+        opacity: 0.9;
+      }
+
+      @media (max-width: 600px) {
+        .firmware-row {
+          flex-wrap: wrap;
+        }
+
+        .firmware-versions {
+          width: 100%;
+          padding-left: 28px;
+        }
+      }
+    `,
+  ];
+}
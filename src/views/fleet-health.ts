@@ -0,0 +1,419 @@
+import { LitElement, html, css, nothing } from "lit";
+import { property, state } from "lit/decorators.js";
+import { safeCustomElement } from "../safe-element";
+import { sharedStyles } from "../styles";
+import { listDevices } from "../api";
+import { localize } from "../localize";
+import {
+  HEALTH_CATEGORIES,
+  RSSI_BUCKETS,
+  WEAK_RSSI,
+  deviceRssi,
+  devicesWithProblem,
+  rssiDistribution,
+  usableRssi,
+} from "../fleet-health";
+import type { HealthCategory, RssiDistribution } from "../fleet-health";
+import type { HomeAssistant, DeviceInfo } from "../types";
+
+@safeCustomElement("hm-fleet-health")
+export class HmFleetHealth extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+  @property() public entryId = "";
+
+  @state() private _devices: DeviceInfo[] = [];
+  @state() private _loading = true;
+  @state() private _error = "";
+  @state() private _category: HealthCategory | null = null;
+
+  updated(changedProps: Map<string, unknown>): void {
+    if (changedProps.has("entryId") && this.entryId) {
+      this._fetchDevices();
+    }
+  }
+
+  private async _fetchDevices(): Promise<void> {
+    this._loading = true;
+    this._error = "";
+    try {
+      this._devices = await listDevices(this.hass, this.entryId);
+    } catch (err) {
+      this._error = String(err);
+    } finally {
+      this._loading = false;
+    }
+  }
+
+  private _l(key: string, params?: Record<string, string | number>): string {
+    return localize(this.hass, key, params);
+  }
+
+  private _handleBack(): void {
+    this.dispatchEvent(new CustomEvent("back", { bubbles: true, composed: true }));
+  }
+
+  private _handleDeviceClick(device: DeviceInfo): void {
+    this.dispatchEvent(
+      new CustomEvent("device-selected", {
+        detail: { device: device.address, interfaceId: device.interface_id },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private _toggleCategory(category: HealthCategory): void {
+    this._category = this._category === category ? null : category;
+  }
+
+  render() {
+    return html`
+      <button class="back-button" @click=${this._handleBack}>
+        \u25C2 ${this._l("common.back")}
+      </button>
+
+      <div class="fleet-header">
+        <h2>${this._l("fleet_health.title")}</h2>
+        <div class="device-info">
+          ${this._loading ? nothing : this._l("fleet_health.subtitle", { count: this._devices.length })}
+        </div>
+      </div>
+
+      ${this._loading
+        ? html`<div class="loading">${this._l("common.loading")}</div>`
+        : this._error
+          ? html`<div class="error">${this._error}</div>`
+          : html`
+              ${this._renderTiles()}
+              ${this._category ? this._renderDrillDown(this._category) : nothing}
+              ${this._renderRssi()}
+            `}
+    `;
+  }
+
+  private _renderTiles() {
+    return html`
+      <div class="tile-grid">
+        ${HEALTH_CATEGORIES.map((category) => {
+          const count = devicesWithProblem(this._devices, category).length;
+          return html`
+            <button
+              class="tile ${count > 0 ? "problem" : ""} ${this._category === category
+                ? "selected"
+                : ""}"
+              @click=${() => this._toggleCategory(category)}
+            >
+              <span class="tile-count">${count}</span>
+              <span class="tile-label">${this._l(`fleet_health.category_${category}`)}</span>
+            </button>
+          `;
+        })}
+      </div>
+    `;
+  }
+
+  private _renderDrillDown(category: HealthCategory) {
+    const devices = devicesWithProblem(this._devices, category);
+
+    return html`
+      <div class="section">
+        <div class="section-title">${this._l(`fleet_health.category_${category}`)}</div>
+        ${devices.length === 0
+          ? html`<div class="empty-state">${this._l("fleet_health.no_devices")}</div>`
+          : this._renderDeviceList(devices)}
+      </div>
+    `;
+  }
+
+  private _renderDeviceList(devices: DeviceInfo[]) {
+    return html`
+      <div class="device-rows">
+        ${devices.map((device) => {
+          const rssi = deviceRssi(device);
+          return html`
+            <div class="device-row" @click=${() => this._handleDeviceClick(device)}>
+              <div class="device-main">
+                <div class="device-name">${device.name}</div>
+                <div class="device-model">${device.model} \u00B7 ${device.address}</div>
+              </div>
+              ${rssi !== null
+                ? html`
+                    <span
+                      class="device-rssi ${rssi <= WEAK_RSSI ? "weak" : ""}"
+                      title=${this._l("fleet_health.rssi_detail", {
+                        device: usableRssi(device.maintenance?.rssi_device) ?? "\u2014",
+                        peer: usableRssi(device.maintenance?.rssi_peer) ?? "\u2014",
+                      })}
+                    >
+                      ${rssi} dBm
+                    </span>
+                  `
+                : nothing}
+              <span class="device-arrow">\u25B8</span>
+            </div>
+          `;
+        })}
+      </div>
+    `;
+  }
+
+  private _renderRssi() {
+    const distribution = rssiDistribution(this._devices);
+
+    return html`
+      <div class="section">
+        <div class="section-title">${this._l("fleet_health.rssi_title")}</div>
+        ${distribution.length === 0
+          ? html`<div class="empty-state">${this._l("fleet_health.no_rssi")}</div>`
+          : distribution.map((entry) => this._renderRssiInterface(entry))}
+      </div>
+    `;
+  }
+
+  private _renderRssiInterface(entry: RssiDistribution) {
+    const measured = RSSI_BUCKETS.reduce((sum, bucket) => sum + entry.buckets[bucket], 0);
+
+    return html`
+      <div class="rssi-interface">
+        <div class="rssi-header">
+          <span class="rssi-name">${entry.interface}</span>
+          <span class="rssi-counts">
+            ${this._l("fleet_health.rssi_summary", {
+              measured,
+              weak: entry.weak.length,
+              unknown: entry.unknown,
+            })}
+          </span>
+        </div>
+        ${measured > 0
+          ? html`
+              <div class="rssi-bar">
+                ${RSSI_BUCKETS.map((bucket) =>
+                  entry.buckets[bucket] > 0
+                    ? html`
+                        <div
+                          class="rssi-segment ${bucket}"
+                          style="flex: ${entry.buckets[bucket]}"
+                          title=${`${this._l(`fleet_health.rssi_${bucket}`)}: ${entry.buckets[bucket]}`}
+                        >
+                          ${entry.buckets[bucket]}
+                        </div>
+                      `
+                    : nothing
+                )}
+              </div>
+              <div class="rssi-legend">
+                ${RSSI_BUCKETS.map(
+                  (bucket) => html`
+                    <span class="legend-item">
+                      <span class="legend-swatch ${bucket}"></span>
+                      ${this._l(`fleet_health.rssi_${bucket}`)}
+                    </span>
+                  `
+                )}
+              </div>
+            `
+          : nothing}
+        ${entry.weak.length > 0 ? this._renderDeviceList(entry.weak) : nothing}
+      </div>
+    `;
+  }
+
+  static styles = [
+    sharedStyles,
+    css`
+      .fleet-header {
+        margin-bottom: 16px;
+      }
+
+      .fleet-header h2 {
+        margin: 8px 0 4px;
+        font-size: 20px;
+        font-weight: 400;
+      }
+
+      .tile-grid {
+        display: grid;
+        grid-template-columns: repeat(auto-fit, minmax(160px, 1fr));
+        gap: 12px;
+        margin-bottom: 16px;
+      }
+
+      .tile {
+        display: flex;
+        flex-direction: column;
+        align-items: flex-start;
+        gap: 4px;
+        padding: 16px;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 8px;
+        background: var(--card-background-color, #fff);
+        color: var(--primary-text-color);
+        cursor: pointer;
+        font-family: inherit;
+        text-align: left;
+      }
+
+      .tile.problem .tile-count {
+        color: var(--error-color, #db4437);
+      }
+
+      .tile.selected {
+        border-color: var(--primary-color, #03a9f4);
+        background: rgba(3, 169, 244, 0.05);
+      }
+
+      .tile-count {
+        font-size: 28px;
+        font-weight: 400;
+      }
+
+      .tile-label {
+        font-size: 13px;
+        color: var(--secondary-text-color);
+      }
+
+      .section {
+        margin-bottom: 24px;
+      }
+
+      .section-title {
+        font-size: 14px;
+        font-weight: 500;
+        color: var(--secondary-text-color);
+        text-transform: uppercase;
+        padding: 8px 0;
+        border-bottom: 1px solid var(--divider-color);
+        margin-bottom: 8px;
+      }
+
+      .device-row {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        padding: 8px;
+        cursor: pointer;
+        border-bottom: 1px solid var(--divider-color, #e0e0e0);
+      }
+
+      .device-row:hover {
+        background-color: var(--secondary-background-color, #f5f5f5);
+      }
+
+      .device-main {
+        flex: 1;
+        min-width: 0;
+      }
+
+      .device-name {
+        font-size: 14px;
+        font-weight: 500;
+      }
+
+      .device-model {
+        font-size: 12px;
+        color: var(--secondary-text-color);
+        margin-top: 2px;
+      }
+
+      .device-rssi {
+        font-family: monospace;
+        font-size: 13px;
+      }
+
+      .device-rssi.weak {
+        color: var(--error-color, #db4437);
+      }
+
+      .device-arrow {
+        color: var(--secondary-text-color);
+        font-size: 18px;
+      }
+
+      .rssi-interface {
+        margin-bottom: 16px;
+      }
+
+      .rssi-header {
+        display: flex;
+        flex-wrap: wrap;
+        justify-content: space-between;
+        gap: 8px;
+        font-size: 14px;
+        margin-bottom: 6px;
+      }
+
+      .rssi-name {
+        font-weight: 500;
+      }
+
+      .rssi-counts {
+        font-size: 13px;
+        color: var(--secondary-text-color);
+      }
+
+      .rssi-bar {
+        display: flex;
+        height: 20px;
+        border-radius: 4px;
+        overflow: hidden;
+      }
+
+      .rssi-segment {
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        min-width: 20px;
+        font-size: 11px;
+        color: #fff;
+      }
+
+      .rssi-segment.good,
+      .legend-swatch.good {
+        background: var(--success-color, #43a047);
+      }
+
+      .rssi-segment.fair,
+      .legend-swatch.fair {
+        background: #8bc34a;
+      }
+
+      .rssi-segment.weak,
+      .legend-swatch.weak {
+        background: var(--warning-color, #ff9800);
+      }
+
+      .rssi-segment.critical,
+      .legend-swatch.critical {
+        background: var(--error-color, #db4437);
+      }
+
+      .rssi-legend {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 12px;
+        margin: 6px 0;
+        font-size: 12px;
+        color: var(--secondary-text-color);
+      }
+
+      .legend-item {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+      }
+
+      .legend-swatch {
+        width: 10px;
+        height: 10px;
+        border-radius: 2px;
+      }
+
+      @media (max-width: 600px) {
+        .tile-grid {
+          grid-template-columns: repeat(2, 1fr);
+        }
+      }
+    `,
+  ];
+}
@@ -2,11 +2,25 @@ import { LitElement, html, css, nothing } from "lit";
 import { property, state } from "lit/decorators.js";
 import { safeCustomElement } from "../safe-element";
 import { sharedStyles } from "../styles";
-import { getLinkFormSchema, putLinkParamset } from "../api";
+import {
+  getLinkFormSchema,
+  putLinkParamset,
+  listDeviceLinks,
+  linkSessionOpen,
+  linkSessionSet,
+  linkSessionUndo,
+  linkSessionRedo,
+  linkSessionSave,
+  linkSessionDiscard,
+} from "../api";
 import { localize } from "../localize";
 import { showConfirmationDialog, showToast } from "../ha-helpers";
+import { applicableProfiles } from "../link-profiles";
+import { deviceAddressOf } from "../device-utils";
 import "../components/config-form";
-import type { HomeAssistant, FormSchema } from "../types";
+import "../components/link-profile-picker";
+import "../components/link-info-editor";
+import type { HomeAssistant, FormSchema, LinkInfo } from "../types";
 
 @safeCustomElement("hm-link-config")
 export class HmLinkConfig extends LitElement {
@@ -17,11 +31,18 @@ export class HmLinkConfig extends LitElement {
   @property() public receiverAddress = "";
 
   @state() private _schema: FormSchema | null = null;
+  @state() private _linkInfo: LinkInfo | null = null;
   @state() private _pendingChanges: Map<string, unknown> = new Map();
   @state() private _loading = true;
   @state() private _saving = false;
   @state() private _error = "";
   @state() private _validationErrors: Record<string, string> = {};
+  @state() private _mode: "profile" | "expert" = "profile";
+
+  // Session state
+  @state() private _sessionActive = false;
+  @state() private _canUndo = false;
+  @state() private _canRedo = false;
 
   updated(changedProps: Map<string, unknown>): void {
     if (
@@ -33,14 +54,48 @@ export class HmLinkConfig extends LitElement {
       this.receiverAddress
     ) {
       this._fetchSchema();
+      this._fetchLinkInfo();
+    }
+  }
+
+  /** Name and description come from the sender device's link list. */
+  private async _fetchLinkInfo(): Promise<void> {
+    this._linkInfo = null;
+    try {
+      const links = await listDeviceLinks(
+        this.hass,
+        this.entryId,
+        this.interfaceId,
+        deviceAddressOf(this.senderAddress)
+      );
+      this._linkInfo =
+        links.find(
+          (l) =>
+            l.sender_address === this.senderAddress &&
+            l.receiver_address === this.receiverAddress
+        ) ?? null;
+    } catch {
+      /* link metadata is optional */
     }
   }
 
-  private async _fetchSchema(): Promise<void> {
+  private _handleLinkInfoChanged(e: CustomEvent): void {
+    if (!this._linkInfo) return;
+    const { name, description } = e.detail;
+    this._linkInfo = { ...this._linkInfo, name, description };
+  }
+
+  /**
+   * Load the link schema and open a session. The mode starts in the profile
+   * view when profiles apply, unless `keepMode` keeps the current one.
+   */
+  private async _fetchSchema(keepMode = false): Promise<void> {
     this._loading = true;
     this._error = "";
     this._pendingChanges = new Map();
     this._validationErrors = {};
+    this._canUndo = false;
+    this._canRedo = false;
     try {
       this._schema = await getLinkFormSchema(
         this.hass,
@@ -49,6 +104,23 @@ export class HmLinkConfig extends LitElement {
         this.senderAddress,
         this.receiverAddress
       );
+      const hasProfiles =
+        applicableProfiles(this._schema, "SHORT").length > 0 ||
+        applicableProfiles(this._schema, "LONG").length > 0;
+      if (!hasProfiles) {
+        this._mode = "expert";
+      } else if (!keepMode) {
+        this._mode = "profile";
+      }
+      // Open server-side session
+      await linkSessionOpen(
+        this.hass,
+        this.entryId,
+        this.interfaceId,
+        this.senderAddress,
+        this.receiverAddress
+      );
+      this._sessionActive = true;
     } catch (err) {
       this._error = String(err);
     } finally {
@@ -64,7 +136,7 @@ export class HmLinkConfig extends LitElement {
     return this._pendingChanges.size > 0;
   }
 
-  private _handleValueChanged(e: CustomEvent): void {
+  private async _handleValueChanged(e: CustomEvent): Promise<void> {
     const { parameterId, value, currentValue } = e.detail;
 
     if (value === currentValue) {
@@ -73,11 +145,133 @@ export class HmLinkConfig extends LitElement {
       this._pendingChanges.set(parameterId, value);
     }
     this._pendingChanges = new Map(this._pendingChanges);
+
+    await this._syncSession({ [parameterId]: value });
+  }
+
+  private async _handleProfileApplied(e: CustomEvent): Promise<void> {
+    const values = e.detail.values as Record<string, unknown>;
+    const next = new Map(this._pendingChanges);
+    const changed: Record<string, unknown> = {};
+    for (const [parameterId, value] of Object.entries(values)) {
+      const effective = next.has(parameterId)
+        ? next.get(parameterId)
+        : this._findParameter(parameterId)?.current_value;
+      if (value === effective) continue;
+      changed[parameterId] = value;
+      if (value === this._findParameter(parameterId)?.current_value) {
+        next.delete(parameterId);
+      } else {
+        next.set(parameterId, value);
+      }
+    }
+    this._pendingChanges = next;
+
+    await this._syncSession(changed);
+  }
+
+  /** Validation errors are shown by the expert form, so switch to it when there are any. */
+  private _setValidationErrors(errors: Record<string, string>): void {
+    this._validationErrors = errors;
+    if (Object.keys(errors).length > 0) this._mode = "expert";
+  }
+
+  /** Mirror local edits into the server session, one parameter at a time. */
+  private async _syncSession(values: Record<string, unknown>): Promise<void> {
+    if (!this._sessionActive) return;
+    try {
+      for (const [parameterId, value] of Object.entries(values)) {
+        const state = await linkSessionSet(
+          this.hass,
+          this.entryId,
+          this.senderAddress,
+          this.receiverAddress,
+          parameterId,
+          value
+        );
+        this._canUndo = state.can_undo;
+        this._canRedo = state.can_redo;
+        this._setValidationErrors(state.validation_errors);
+      }
+    } catch {
+      /* session sync is best-effort */
+    }
+  }
+
+  private async _handleUndo(): Promise<void> {
+    if (!this._sessionActive) return;
+    try {
+      const result = await linkSessionUndo(
+        this.hass,
+        this.entryId,
+        this.senderAddress,
+        this.receiverAddress
+      );
+      this._canUndo = result.can_undo;
+      this._canRedo = result.can_redo;
+      if (result.performed) {
+        await this._refreshSchemaValues();
+      }
+    } catch (err) {
+      this._error = String(err);
+    }
+  }
+
+  private async _handleRedo(): Promise<void> {
+    if (!this._sessionActive) return;
+    try {
+      const result = await linkSessionRedo(
+        this.hass,
+        this.entryId,
+        this.senderAddress,
+        this.receiverAddress
+      );
+      this._canUndo = result.can_undo;
+      this._canRedo = result.can_redo;
+      if (result.performed) {
+        await this._refreshSchemaValues();
+      }
+    } catch (err) {
+      this._error = String(err);
+    }
+  }
+
+  private async _refreshSchemaValues(): Promise<void> {
+    try {
+      this._schema = await getLinkFormSchema(
+        this.hass,
+        this.entryId,
+        this.interfaceId,
+        this.senderAddress,
+        this.receiverAddress
+      );
+      this._pendingChanges = new Map();
+    } catch (err) {
+      this._error = String(err);
+    }
   }
 
   private _handleDiscard(): void {
     this._pendingChanges = new Map();
     this._validationErrors = {};
+    if (this._sessionActive) {
+      linkSessionDiscard(this.hass, this.entryId, this.senderAddress, this.receiverAddress)
+        .then(() => {
+          this._canUndo = false;
+          this._canRedo = false;
+          // Reopen session for a fresh start
+          return linkSessionOpen(
+            this.hass,
+            this.entryId,
+            this.interfaceId,
+            this.senderAddress,
+            this.receiverAddress
+          );
+        })
+        .catch(() => {
+          /* best-effort */
+        });
+    }
   }
 
   private async _handleSave(): Promise<void> {
@@ -105,18 +299,39 @@ export class HmLinkConfig extends LitElement {
     this._validationErrors = {};
 
     try {
-      const result = await putLinkParamset(
-        this.hass,
-        this.entryId,
-        this.interfaceId,
-        this.senderAddress,
-        this.receiverAddress,
-        Object.fromEntries(this._pendingChanges)
-      );
-      if (result.success) {
-        this._pendingChanges = new Map();
-        showToast(this, { message: this._l("link_config.save_success") });
-        await this._fetchSchema();
+      if (this._sessionActive) {
+        // Use session save (validates + writes + logs history)
+        const result = await linkSessionSave(
+          this.hass,
+          this.entryId,
+          this.interfaceId,
+          this.senderAddress,
+          this.receiverAddress
+        );
+        if (result.success) {
+          this._pendingChanges = new Map();
+          this._sessionActive = false;
+          showToast(this, { message: this._l("link_config.save_success") });
+          await this._fetchSchema(true); // Reopens session
+        } else if (Object.keys(result.validation_errors).length > 0) {
+          this._setValidationErrors(result.validation_errors);
+          showToast(this, { message: this._l("channel_config.validation_failed") });
+        }
+      } else {
+        // Fallback to direct put
+        const result = await putLinkParamset(
+          this.hass,
+          this.entryId,
+          this.interfaceId,
+          this.senderAddress,
+          this.receiverAddress,
+          Object.fromEntries(this._pendingChanges)
+        );
+        if (result.success) {
+          this._pendingChanges = new Map();
+          showToast(this, { message: this._l("link_config.save_success") });
+          await this._fetchSchema(true);
+        }
       }
     } catch (err) {
       this._error = String(err);
@@ -146,6 +361,20 @@ export class HmLinkConfig extends LitElement {
       });
       if (!confirmed) return;
     }
+    // Clean up session
+    if (this._sessionActive) {
+      try {
+        await linkSessionDiscard(
+          this.hass,
+          this.entryId,
+          this.senderAddress,
+          this.receiverAddress
+        );
+      } catch {
+        /* best-effort */
+      }
+      this._sessionActive = false;
+    }
     this.dispatchEvent(
       new CustomEvent("back", { bubbles: true, composed: true })
     );
@@ -177,11 +406,52 @@ export class HmLinkConfig extends LitElement {
             <span class="link-address">${this.receiverAddress}</span>
           </div>
         </div>
+        ${this._linkInfo
+          ? html`
+              <hm-link-info-editor
+                class="link-meta"
+                .hass=${this.hass}
+                .entryId=${this.entryId}
+                .senderAddress=${this.senderAddress}
+                .receiverAddress=${this.receiverAddress}
+                .name=${this._linkInfo.name}
+                .description=${this._linkInfo.description}
+                @link-info-changed=${this._handleLinkInfoChanged}
+              ></hm-link-info-editor>
+            `
+          : nothing}
       </div>
 
       ${this._error ? html`<div class="error">${this._error}</div>` : nothing}
 
-      ${this._schema
+      <div class="mode-toggle">
+        <button
+          class=${this._mode === "profile" ? "active" : ""}
+          @click=${() => (this._mode = "profile")}
+        >
+          ${this._l("link_profiles.mode_profile")}
+        </button>
+        <button
+          class=${this._mode === "expert" ? "active" : ""}
+          @click=${() => (this._mode = "expert")}
+        >
+          ${this._l("link_profiles.mode_expert")}
+        </button>
+      </div>
+
+      ${this._schema && this._mode === "profile"
+        ? html`
+            <hm-link-profile-picker
+              .hass=${this.hass}
+              .schema=${this._schema}
+              .pendingChanges=${this._pendingChanges}
+              ?disabled=${this._saving}
+              @profile-applied=${this._handleProfileApplied}
+            ></hm-link-profile-picker>
+          `
+        : nothing}
+
+      ${this._schema && this._mode === "expert"
         ? html`
             <hm-config-form
               .hass=${this.hass}
@@ -193,21 +463,41 @@ export class HmLinkConfig extends LitElement {
           `
         : nothing}
 
-      <div class="action-bar">
-        <button
-          class="btn btn-secondary"
-          @click=${this._handleDiscard}
-          ?disabled=${!this._isDirty || this._saving}
-        >
-          ${this._l("link_config.discard")}
-        </button>
-        <button
-          class="btn btn-primary"
-          @click=${this._handleSave}
-          ?disabled=${!this._isDirty || this._saving}
-        >
-          ${this._saving ? this._l("channel_config.saving") : this._l("common.save")}
-        </button>
+      <div class="action-bar-split">
+        <div class="action-bar-left">
+          <button
+            class="btn btn-icon"
+            @click=${this._handleUndo}
+            ?disabled=${!this._canUndo || this._saving}
+            title="${this._l("channel_config.undo")}"
+          >
+            &#x21A9;
+          </button>
+          <button
+            class="btn btn-icon"
+            @click=${this._handleRedo}
+            ?disabled=${!this._canRedo || this._saving}
+            title="${this._l("channel_config.redo")}"
+          >
+            &#x21AA;
+          </button>
+        </div>
+        <div class="action-bar-right">
+          <button
+            class="btn btn-secondary"
+            @click=${this._handleDiscard}
+            ?disabled=${!this._isDirty || this._saving}
+          >
+            ${this._l("link_config.discard")}
+          </button>
+          <button
+            class="btn btn-primary"
+            @click=${this._handleSave}
+            ?disabled=${!this._isDirty || this._saving}
+          >
+            ${this._saving ? this._l("channel_config.saving") : this._l("common.save")}
+          </button>
+        </div>
       </div>
     `;
   }
@@ -253,12 +543,42 @@ export class HmLinkConfig extends LitElement {
         font-size: 14px;
       }
 
+      .link-meta {
+        margin-top: 8px;
+        padding: 8px 12px;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 8px;
+      }
+
       .link-direction-arrow {
         font-size: 20px;
         color: var(--primary-color, #03a9f4);
         flex-shrink: 0;
       }
 
+      .mode-toggle {
+        display: inline-flex;
+        margin-bottom: 16px;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 4px;
+        overflow: hidden;
+      }
+
+      .mode-toggle button {
+        padding: 6px 16px;
+        border: none;
+        background: transparent;
+        color: var(--primary-text-color);
+        cursor: pointer;
+        font-size: 13px;
+        font-family: inherit;
+      }
+
+      .mode-toggle button.active {
+        background: var(--primary-color, #03a9f4);
+        color: #fff;
+      }
+
       .btn {
         padding: 8px 20px;
         border-radius: 4px;
@@ -293,7 +613,59 @@ export class HmLinkConfig extends LitElement {
         background: var(--secondary-background-color, #f5f5f5);
       }
 
+      .btn-icon {
+        background: none;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 4px;
+        padding: 6px 10px;
+        cursor: pointer;
+        font-size: 16px;
+        color: var(--primary-text-color);
+      }
+
+      .btn-icon:disabled {
+        opacity: 0.3;
+        cursor: not-allowed;
+      }
+
+      .btn-icon:hover:not(:disabled) {
+        background: var(--secondary-background-color, #f5f5f5);
+      }
+
+      .action-bar-split {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        padding: 16px;
+        border-top: 1px solid var(--divider-color);
+      }
+
+      .action-bar-left,
+      .action-bar-right {
+        display: flex;
+        gap: 8px;
+      }
+
       @media (max-width: 600px) {
+        .action-bar-split {
+          flex-direction: column;
+          gap: 12px;
+        }
+
+        .action-bar-left,
+        .action-bar-right {
+          width: 100%;
+          justify-content: stretch;
+        }
+
+        .action-bar-right {
+          flex-direction: column;
+        }
+
+        .action-bar-right button {
+          width: 100%;
+        }
+
         .link-info-bar {
           flex-direction: column;
           align-items: flex-start;
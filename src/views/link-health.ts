@@ -0,0 +1,451 @@
+import { LitElement, html, css, nothing } from "lit";
+import { property, state } from "lit/decorators.js";
+import { safeCustomElement } from "../safe-element";
+import { sharedStyles } from "../styles";
+import { listDevices, removeLink } from "../api";
+import { localize } from "../localize";
+import { showConfirmationDialog, showToast } from "../ha-helpers";
+import { collectDeviceLinks, linkKey } from "../installation-links";
+import { checkLinkHealth, CLEANUP_PROBLEMS } from "../link-health";
+import type { LinkIssue } from "../link-health";
+import type { HomeAssistant } from "../types";
+
+interface Progress {
+  done: number;
+  total: number;
+}
+
+@safeCustomElement("hm-link-health")
+export class HmLinkHealth extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+  @property() public entryId = "";
+
+  @state() private _issues: LinkIssue[] = [];
+  @state() private _checkedDevices = 0;
+  @state() private _loading = true;
+  @state() private _progress: Progress | null = null;
+  @state() private _error = "";
+  @state() private _selected: Set<string> = new Set();
+  @state() private _removing = false;
+  @state() private _failed: Set<string> = new Set();
+
+  updated(changedProps: Map<string, unknown>): void {
+    if (changedProps.has("entryId") && this.entryId) {
+      this._runCheck();
+    }
+  }
+
+  private async _runCheck(): Promise<void> {
+    this._loading = true;
+    this._error = "";
+    this._failed = new Set();
+    try {
+      const devices = await listDevices(this.hass, this.entryId);
+      const deviceLinks = await collectDeviceLinks(
+        this.hass,
+        this.entryId,
+        devices,
+        (done, total) => (this._progress = { done, total })
+      );
+      this._checkedDevices = deviceLinks.size;
+      this._issues = checkLinkHealth(devices, deviceLinks);
+      this._selected = new Set(
+        this._issues
+          .filter((issue) => issue.problems.some((p) => CLEANUP_PROBLEMS.has(p)))
+          .map((issue) => this._issueKey(issue))
+      );
+    } catch (err) {
+      this._error = String(err);
+    } finally {
+      this._loading = false;
+      this._progress = null;
+    }
+  }
+
+  private _l(key: string, params?: Record<string, string | number>): string {
+    return localize(this.hass, key, params);
+  }
+
+  private _issueKey(issue: LinkIssue): string {
+    return linkKey(issue.link.sender_address, issue.link.receiver_address);
+  }
+
+  private _handleBack(): void {
+    this.dispatchEvent(new CustomEvent("back", { bubbles: true, composed: true }));
+  }
+
+  private _toggle(key: string): void {
+    const next = new Set(this._selected);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    this._selected = next;
+  }
+
+  private _handleConfigure(issue: LinkIssue): void {
+    this.dispatchEvent(
+      new CustomEvent("configure-link", {
+        detail: {
+          senderAddress: issue.link.sender_address,
+          receiverAddress: issue.link.receiver_address,
+          interfaceId: issue.link.interface_id,
+        },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private async _handleRemove(issues: LinkIssue[]): Promise<void> {
+    if (issues.length === 0 || this._removing) return;
+    const confirmed = await showConfirmationDialog(this, {
+      title: this._l("link_health.remove_confirm_title"),
+      text: this._l("link_health.remove_confirm_text", { count: issues.length }),
+      confirmText: this._l("link_health.remove"),
+      dismissText: this._l("common.cancel"),
+      destructive: true,
+    });
+    if (!confirmed) return;
+
+    this._removing = true;
+    const removed = new Set<string>();
+    const failed = new Set(this._failed);
+    for (const issue of issues) {
+      const key = this._issueKey(issue);
+      try {
+        const result = await removeLink(
+          this.hass,
+          this.entryId,
+          issue.link.sender_address,
+          issue.link.receiver_address
+        );
+        if (result.success) {
+          removed.add(key);
+          failed.delete(key);
+        } else {
+          failed.add(key);
+        }
+      } catch {
+        failed.add(key);
+      }
+    }
+    this._issues = this._issues.filter((issue) => !removed.has(this._issueKey(issue)));
+    this._selected = new Set([...this._selected].filter((key) => !removed.has(key)));
+    this._failed = failed;
+    this._removing = false;
+
+    showToast(this, {
+      message: this._l("link_health.remove_result", {
+        removed: removed.size,
+        failed: issues.length - removed.size,
+      }),
+    });
+  }
+
+  render() {
+    const selectedIssues = this._issues.filter((issue) =>
+      this._selected.has(this._issueKey(issue))
+    );
+
+    return html`
+      <button class="back-button" @click=${this._handleBack}>
+        \u25C2 ${this._l("common.back")}
+      </button>
+
+      <div class="health-header">
+        <h2>${this._l("link_health.title")}</h2>
+        <div class="device-info">${this._l("link_health.subtitle")}</div>
+      </div>
+
+      ${this._loading
+        ? html`
+            <div class="loading">
+              ${this._progress
+                ? this._l("link_health.checking_progress", {
+                    done: this._progress.done,
+                    total: this._progress.total,
+                  })
+                : this._l("common.loading")}
+            </div>
+          `
+        : this._error
+          ? html`<div class="error">${this._error}</div>`
+          : html`
+              <div class="health-summary">
+                <span>
+                  ${this._l("link_health.summary", {
+                    issues: this._issues.length,
+                    devices: this._checkedDevices,
+                  })}
+                </span>
+                <button class="btn btn-secondary" ?disabled=${this._removing} @click=${this._runCheck}>
+                  ${this._l("link_health.recheck")}
+                </button>
+              </div>
+              ${this._issues.length === 0
+                ? html`<div class="empty-state">${this._l("link_health.all_healthy")}</div>`
+                : html`
+                    <div class="issue-list">
+                      ${this._issues.map((issue) => this._renderIssue(issue))}
+                    </div>
+                    <div class="action-bar">
+                      <button
+                        class="btn btn-primary destructive"
+                        ?disabled=${selectedIssues.length === 0 || this._removing}
+                        @click=${() => this._handleRemove(selectedIssues)}
+                      >
+                        ${this._removing
+                          ? this._l("link_health.removing")
+                          : this._l("link_health.remove_selected", {
+                              count: selectedIssues.length,
+                            })}
+                      </button>
+                    </div>
+                  `}
+            `}
+    `;
+  }
+
+  private _renderIssue(issue: LinkIssue) {
+    const key = this._issueKey(issue);
+    const { link } = issue;
+
+    return html`
+      <div class="issue-card">
+        <input
+          type="checkbox"
+          .checked=${this._selected.has(key)}
+          ?disabled=${this._removing}
+          @change=${() => this._toggle(key)}
+        />
+        <div class="issue-content">
+          <div class="issue-addresses">
+            <span>${link.sender_address}</span>
+            <span class="issue-arrow">\u2192</span>
+            <span>${link.receiver_address}</span>
+          </div>
+          <div class="issue-devices">
+            ${link.sender_device_name || link.sender_address}
+            \u2192
+            ${link.receiver_device_name || link.receiver_address}
+            ${link.name ? html`\u2014 ${link.name}` : nothing}
+          </div>
+          <div class="issue-problems">
+            ${issue.problems.map(
+              (problem) => html`
+                <span class="problem-badge ${CLEANUP_PROBLEMS.has(problem) ? "stale" : ""}">
+                  ${this._l(`link_health.problem_${problem}`)}
+                </span>
+              `
+            )}
+            <span class="issue-affected">${issue.affected.join(", ")}</span>
+          </div>
+          ${this._failed.has(key)
+            ? html`<div class="issue-error">${this._l("link_health.remove_failed")}</div>`
+            : nothing}
+        </div>
+        <div class="issue-actions">
+          <button class="configure-button" @click=${() => this._handleConfigure(issue)}>
+            ${this._l("device_links.configure")}
+          </button>
+          <button
+            class="configure-button destructive"
+            ?disabled=${this._removing}
+            @click=${() => this._handleRemove([issue])}
+          >
+            ${this._l("device_links.delete")}
+          </button>
+        </div>
+      </div>
+    `;
+  }
+
+  static styles = [
+    sharedStyles,
+    css`
+      .health-header {
+        margin-bottom: 16px;
+      }
+
+      .health-header h2 {
+        margin: 8px 0 4px;
+        font-size: 20px;
+        font-weight: 400;
+      }
+
+      .health-summary {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        gap: 8px;
+        margin-bottom: 12px;
+        font-size: 14px;
+      }
+
+      .issue-list {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+      }
+
+      .issue-card {
+        display: flex;
+        align-items: flex-start;
+        gap: 12px;
+        padding: 12px 16px;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 8px;
+      }
+
+      .issue-card input[type="checkbox"] {
+        margin-top: 2px;
+        flex-shrink: 0;
+      }
+
+      .issue-content {
+        flex: 1;
+        min-width: 0;
+      }
+
+      .issue-addresses {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 8px;
+        font-family: monospace;
+        font-size: 13px;
+      }
+
+      .issue-arrow {
+        color: var(--secondary-text-color);
+      }
+
+      .issue-devices {
+        font-size: 13px;
+        color: var(--secondary-text-color);
+        margin-top: 2px;
+      }
+
+      .issue-problems {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 6px;
+        margin-top: 6px;
+      }
+
+      .problem-badge {
+        font-size: 11px;
+        padding: 2px 8px;
+        border-radius: 12px;
+        color: #fff;
+        text-transform: uppercase;
+        background: var(--warning-color, #ff9800);
+      }
+
+      .problem-badge.stale {
+        background: var(--error-color, #db4437);
+      }
+
+      .issue-affected {
+        font-family: monospace;
+        font-size: 12px;
+        color: var(--secondary-text-color);
+      }
+
+      .issue-error {
+        font-size: 12px;
+        color: var(--error-color, #db4437);
+        margin-top: 4px;
+      }
+
+      .issue-actions {
+        display: flex;
+        flex-direction: column;
+        gap: 6px;
+        flex-shrink: 0;
+      }
+
+      .configure-button {
+        background: none;
+        border: 1px solid var(--primary-color, #03a9f4);
+        color: var(--primary-color, #03a9f4);
+        padding: 4px 12px;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 13px;
+        font-family: inherit;
+      }
+
+      .configure-button:hover:not(:disabled) {
+        background: var(--primary-color, #03a9f4);
+        color: #fff;
+      }
+
+      .configure-button.destructive {
+        border-color: var(--error-color, #db4437);
+        color: var(--error-color, #db4437);
+      }
+
+      .configure-button.destructive:hover:not(:disabled) {
+        background: var(--error-color, #db4437);
+        color: #fff;
+      }
+
+      .btn {
+        padding: 8px 20px;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 14px;
+        font-family: inherit;
+        border: 1px solid transparent;
+      }
+
+      .btn:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      .btn-primary {
+        background: var(--primary-color, #03a9f4);
+        color: #fff;
+        border-color: var(--primary-color, #03a9f4);
+      }
+
+      .btn-primary.destructive {
+        background: var(--error-color, #db4437);
+        border-color: var(--error-color, #db4437);
+      }
+
+      .btn-primary:hover:not(:disabled) {
+        opacity: 0.9;
+      }
+
+      .btn-secondary {
+        background: transparent;
+        color: var(--primary-text-color);
+        border-color: var(--divider-color, #e0e0e0);
+      }
+
+      .btn-secondary:hover:not(:disabled) {
+        background: var(--secondary-background-color, #f5f5f5);
+      }
+
+      @media (max-width: 600px) {
+        .issue-card {
+          flex-wrap: wrap;
+        }
+
+        .issue-actions {
+          flex-direction: row;
+          width: 100%;
+        }
+
+        .configure-button {
+          flex: 1;
+        }
+      }
+    `,
+  ];
+}
@@ -0,0 +1,518 @@
+import { LitElement, html, svg, css } from "lit";
+import { property, state } from "lit/decorators.js";
+import { safeCustomElement } from "../safe-element";
+import { sharedStyles } from "../styles";
+import { listDevices, LINKABLE_INTERFACES } from "../api";
+import { localize } from "../localize";
+import { collectInstallationLinks, linkKey } from "../installation-links";
+import { deviceAddressOf, channelNumberOf } from "../device-utils";
+import type { InstallationLink } from "../installation-links";
+import type { HomeAssistant, DeviceInfo } from "../types";
+
+const NODE_WIDTH = 240;
+const COLUMN_GAP = 200;
+const HEADER_HEIGHT = 40;
+const PORT_HEIGHT = 22;
+const NODE_GAP = 16;
+
+interface Progress {
+  done: number;
+  total: number;
+}
+
+interface GraphNode {
+  deviceAddress: string;
+  device: DeviceInfo | null;
+  name: string;
+  model: string;
+  x: number;
+  y: number;
+  height: number;
+  /** Channel addresses shown as ports, in display order. */
+  ports: string[];
+}
+
+interface GraphEdge {
+  link: InstallationLink;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+interface GraphLayout {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  width: number;
+  height: number;
+  deviceCount: number;
+}
+
+/**
+ * Installation-wide graph of direct links. Sending devices are drawn on the
+ * left, receiving devices on the right, each with one port per linked channel.
+ */
+@safeCustomElement("hm-link-topology")
+export class HmLinkTopology extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+  @property() public entryId = "";
+  /** Filter state as stored in the URL hash (iface, model). */
+  @property({ attribute: false }) public filters: Record<string, string> = {};
+
+  @state() private _devices: DeviceInfo[] = [];
+  @state() private _links: InstallationLink[] = [];
+  @state() private _loading = true;
+  @state() private _progress: Progress | null = null;
+  @state() private _error = "";
+  @state() private _hoveredLink = "";
+
+  updated(changedProps: Map<string, unknown>): void {
+    if (changedProps.has("entryId") && this.entryId) {
+      this._fetchLinks();
+    }
+  }
+
+  private async _fetchLinks(): Promise<void> {
+    this._loading = true;
+    this._error = "";
+    try {
+      this._devices = await listDevices(this.hass, this.entryId);
+      this._links = await collectInstallationLinks(
+        this.hass,
+        this.entryId,
+        this._devices,
+        (done, total) => (this._progress = { done, total })
+      );
+    } catch (err) {
+      this._error = String(err);
+    } finally {
+      this._loading = false;
+      this._progress = null;
+    }
+  }
+
+  private _l(key: string, params?: Record<string, string | number>): string {
+    return localize(this.hass, key, params);
+  }
+
+  private _handleBack(): void {
+    this.dispatchEvent(new CustomEvent("back", { bubbles: true, composed: true }));
+  }
+
+  private _setFilter(key: string, value: string): void {
+    const next = { ...this.filters };
+    if (value) {
+      next[key] = value;
+    } else {
+      delete next[key];
+    }
+    this.dispatchEvent(
+      new CustomEvent("filters-changed", {
+        detail: { filters: next },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private _handleEdgeClick(link: InstallationLink): void {
+    this.dispatchEvent(
+      new CustomEvent("configure-link", {
+        detail: {
+          device: deviceAddressOf(link.sender_address),
+          senderAddress: link.sender_address,
+          receiverAddress: link.receiver_address,
+          interfaceId: link.interface_id,
+        },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private _handleNodeClick(node: GraphNode): void {
+    if (!node.device) return;
+    this.dispatchEvent(
+      new CustomEvent("device-selected", {
+        detail: { device: node.device.address, interfaceId: node.device.interface_id },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private get _linkableDevices(): DeviceInfo[] {
+    return this._devices.filter((d) => LINKABLE_INTERFACES.has(d.interface));
+  }
+
+  /** Links where the sender or the receiver device matches the active filters. */
+  private _visibleLinks(byAddress: Map<string, DeviceInfo>): InstallationLink[] {
+    const { iface, model } = this.filters;
+    if (!iface && !model) return this._links;
+    const matches = (device: DeviceInfo | undefined): boolean =>
+      Boolean(device) &&
+      (!iface || device!.interface === iface) &&
+      (!model || device!.model === model);
+    return this._links.filter(
+      (link) =>
+        matches(byAddress.get(deviceAddressOf(link.sender_address))) ||
+        matches(byAddress.get(deviceAddressOf(link.receiver_address)))
+    );
+  }
+
+  private _layout(): GraphLayout {
+    const byAddress = new Map(this._devices.map((d) => [d.address, d]));
+    const links = this._visibleLinks(byAddress);
+
+    const buildColumn = (
+      x: number,
+      channelOf: (link: InstallationLink) => string,
+      nameOf: (link: InstallationLink) => string,
+      modelOf: (link: InstallationLink) => string
+    ): GraphNode[] => {
+      const nodes = new Map<string, GraphNode>();
+      for (const link of links) {
+        const channel = channelOf(link);
+        const deviceAddress = deviceAddressOf(channel);
+        let node = nodes.get(deviceAddress);
+        if (!node) {
+          const device = byAddress.get(deviceAddress) ?? null;
+          node = {
+            deviceAddress,
+            device,
+            name: device?.name ?? (nameOf(link) || deviceAddress),
+            model: device?.model ?? modelOf(link),
+            x,
+            y: 0,
+            height: 0,
+            ports: [],
+          };
+          nodes.set(deviceAddress, node);
+        }
+        if (!node.ports.includes(channel)) node.ports.push(channel);
+      }
+
+      let y = 0;
+      const sorted = [...nodes.values()].sort((a, b) => a.name.localeCompare(b.name));
+      for (const node of sorted) {
+        node.ports.sort((a, b) => Number(channelNumberOf(a)) - Number(channelNumberOf(b)));
+        node.y = y;
+        node.height = HEADER_HEIGHT + node.ports.length * PORT_HEIGHT + 6;
+        y += node.height + NODE_GAP;
+      }
+      return sorted;
+    };
+
+    const senders = buildColumn(
+      0,
+      (l) => l.sender_address,
+      (l) => l.sender_device_name,
+      (l) => l.sender_device_model
+    );
+    const receivers = buildColumn(
+      NODE_WIDTH + COLUMN_GAP,
+      (l) => l.receiver_address,
+      (l) => l.receiver_device_name,
+      (l) => l.receiver_device_model
+    );
+
+    const portY = (nodes: GraphNode[], channel: string): number => {
+      const node = nodes.find((n) => n.deviceAddress === deviceAddressOf(channel))!;
+      return node.y + HEADER_HEIGHT + node.ports.indexOf(channel) * PORT_HEIGHT + PORT_HEIGHT / 2;
+    };
+
+    const edges = links.map((link) => ({
+      link,
+      x1: NODE_WIDTH,
+      y1: portY(senders, link.sender_address),
+      x2: NODE_WIDTH + COLUMN_GAP,
+      y2: portY(receivers, link.receiver_address),
+    }));
+
+    const columnHeight = (nodes: GraphNode[]): number =>
+      nodes.length > 0 ? nodes[nodes.length - 1].y + nodes[nodes.length - 1].height : 0;
+
+    return {
+      nodes: [...senders, ...receivers],
+      edges,
+      width: 2 * NODE_WIDTH + COLUMN_GAP,
+      height: Math.max(columnHeight(senders), columnHeight(receivers)) + 2,
+      deviceCount: new Set([...senders, ...receivers].map((n) => n.deviceAddress)).size,
+    };
+  }
+
+  private _portLabel(node: GraphNode, channel: string): string {
+    const channelType =
+      node.device?.channels.find((c) => c.address === channel)?.channel_type ?? "";
+    return `:${channelNumberOf(channel)} ${channelType}`.trim();
+  }
+
+  render() {
+    return html`
+      <button class="back-button" @click=${this._handleBack}>
+        \u25C2 ${this._l("common.back")}
+      </button>
+
+      <div class="topology-header">
+        <h2>${this._l("link_topology.title")}</h2>
+        <div class="device-info">${this._l("link_topology.subtitle")}</div>
+      </div>
+
+      ${this._loading
+        ? html`
+            <div class="loading">
+              ${this._progress
+                ? this._l("link_topology.loading_progress", {
+                    done: this._progress.done,
+                    total: this._progress.total,
+                  })
+                : this._l("common.loading")}
+            </div>
+          `
+        : this._error
+          ? html`<div class="error">${this._error}</div>`
+          : this._renderGraph()}
+    `;
+  }
+
+  private _renderFilters() {
+    const devices = this._linkableDevices;
+    const interfaces = [...new Set(devices.map((d) => d.interface))].sort();
+    const models = [...new Set(devices.map((d) => d.model))].sort();
+    const { iface, model } = this.filters;
+
+    return html`
+      <div class="filter-bar">
+        <select
+          @change=${(e: Event) => this._setFilter("iface", (e.target as HTMLSelectElement).value)}
+        >
+          <option value="" ?selected=${!iface}>${this._l("link_topology.all_interfaces")}</option>
+          ${interfaces.map(
+            (name) => html`<option value=${name} ?selected=${iface === name}>${name}</option>`
+          )}
+        </select>
+        <select
+          @change=${(e: Event) => this._setFilter("model", (e.target as HTMLSelectElement).value)}
+        >
+          <option value="" ?selected=${!model}>${this._l("link_topology.all_models")}</option>
+          ${models.map(
+            (name) => html`<option value=${name} ?selected=${model === name}>${name}</option>`
+          )}
+        </select>
+      </div>
+    `;
+  }
+
+  private _renderGraph() {
+    const layout = this._layout();
+
+    return html`
+      ${this._renderFilters()}
+      ${layout.edges.length === 0
+        ? html`<div class="empty-state">${this._l("link_topology.no_links")}</div>`
+        : html`
+            <div class="topology-summary">
+              ${this._l("link_topology.summary", {
+                links: layout.edges.length,
+                devices: layout.deviceCount,
+              })}
+            </div>
+            <div class="column-titles" style="width: ${layout.width}px">
+              <span>${this._l("link_topology.senders")}</span>
+              <span>${this._l("link_topology.receivers")}</span>
+            </div>
+            <div class="graph-container">
+              <svg
+                width=${layout.width}
+                height=${layout.height}
+                viewBox="0 0 ${layout.width} ${layout.height}"
+              >
+                ${layout.edges.map((edge) => this._renderEdge(edge))}
+                ${layout.nodes.map((node) => this._renderNode(node))}
+              </svg>
+            </div>
+          `}
+    `;
+  }
+
+  private _renderEdge(edge: GraphEdge) {
+    const key = linkKey(edge.link.sender_address, edge.link.receiver_address);
+    const midX = (edge.x1 + edge.x2) / 2;
+    const path = `M ${edge.x1} ${edge.y1} C ${midX} ${edge.y1}, ${midX} ${edge.y2}, ${edge.x2} ${edge.y2}`;
+    const title = edge.link.name
+      ? `${edge.link.name}: ${edge.link.sender_address} \u2192 ${edge.link.receiver_address}`
+      : `${edge.link.sender_address} \u2192 ${edge.link.receiver_address}`;
+
+    return svg`
+      <g
+        class="edge ${this._hoveredLink === key ? "hovered" : ""}"
+        @click=${() => this._handleEdgeClick(edge.link)}
+        @mouseenter=${() => (this._hoveredLink = key)}
+        @mouseleave=${() => (this._hoveredLink = "")}
+      >
+        <title>${title}</title>
+        <path class="edge-hit" d=${path}></path>
+        <path class="edge-line" d=${path}></path>
+      </g>
+    `;
+  }
+
+  private _renderNode(node: GraphNode) {
+    const isSender = node.x === 0;
+    const portX = isSender ? NODE_WIDTH - 8 : node.x + 8;
+
+    return svg`
+      <g class="node ${node.device ? "clickable" : ""}" @click=${() => this._handleNodeClick(node)}>
+        <title>${node.name} (${node.deviceAddress})</title>
+        <rect
+          class="node-box"
+          x=${node.x}
+          y=${node.y}
+          width=${NODE_WIDTH}
+          height=${node.height}
+          rx="6"
+        ></rect>
+        <text class="node-name" x=${node.x + 10} y=${node.y + 17}>
+          ${this._truncate(node.name, 30)}
+        </text>
+        <text class="node-model" x=${node.x + 10} y=${node.y + 32}>
+          ${node.model} \u00B7 ${node.deviceAddress}
+        </text>
+        ${node.ports.map((channel, index) => {
+          const y = node.y + HEADER_HEIGHT + index * PORT_HEIGHT + PORT_HEIGHT / 2;
+          return svg`
+            <text
+              class="port-label"
+              x=${portX}
+              y=${y + 4}
+              text-anchor=${isSender ? "end" : "start"}
+            >
+              ${this._truncate(this._portLabel(node, channel), 32)}
+            </text>
+            <circle class="port" cx=${isSender ? NODE_WIDTH : node.x} cy=${y} r="3"></circle>
+          `;
+        })}
+      </g>
+    `;
+  }
+
+  private _truncate(text: string, max: number): string {
+    return text.length > max ? `${text.slice(0, max - 1)}\u2026` : text;
+  }
+
+  static styles = [
+    sharedStyles,
+    css`
+      .topology-header {
+        margin-bottom: 16px;
+      }
+
+      .topology-header h2 {
+        margin: 8px 0 4px;
+        font-size: 20px;
+        font-weight: 400;
+      }
+
+      .filter-bar {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 8px;
+        margin-bottom: 16px;
+      }
+
+      .filter-bar select {
+        padding: 6px 8px;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 4px;
+        font-size: 13px;
+        font-family: inherit;
+        background: var(--card-background-color, #fff);
+        color: var(--primary-text-color);
+      }
+
+      .topology-summary {
+        font-size: 13px;
+        color: var(--secondary-text-color);
+        margin-bottom: 8px;
+      }
+
+      .column-titles {
+        display: flex;
+        justify-content: space-between;
+        font-size: 12px;
+        font-weight: 500;
+        text-transform: uppercase;
+        color: var(--secondary-text-color);
+        margin-bottom: 4px;
+      }
+
+      .graph-container {
+        overflow-x: auto;
+        padding-bottom: 8px;
+      }
+
+      svg {
+        display: block;
+        font-family: inherit;
+      }
+
+      .node-box {
+        fill: var(--card-background-color, #fff);
+        stroke: var(--divider-color, #e0e0e0);
+      }
+
+      .node.clickable {
+        cursor: pointer;
+      }
+
+      .node.clickable:hover .node-box {
+        stroke: var(--primary-color, #03a9f4);
+      }
+
+      .node-name {
+        font-size: 13px;
+        font-weight: 500;
+        fill: var(--primary-text-color);
+      }
+
+      .node-model,
+      .port-label {
+        font-size: 11px;
+        fill: var(--secondary-text-color);
+      }
+
+      .port {
+        fill: var(--primary-color, #03a9f4);
+      }
+
+      .edge {
+        cursor: pointer;
+      }
+
+      .edge-hit {
+        fill: none;
+        stroke: transparent;
+        stroke-width: 10;
+      }
+
+      .edge-line {
+        fill: none;
+        stroke: var(--secondary-text-color, #727272);
+        stroke-width: 1.5;
+        opacity: 0.6;
+      }
+
+      .edge.hovered .edge-line {
+        stroke: var(--primary-color, #03a9f4);
+        stroke-width: 2.5;
+        opacity: 1;
+      }
+
+      @media (max-width: 600px) {
+        .filter-bar select {
+          width: 100%;
+        }
+      }
+    `,
+  ];
+}
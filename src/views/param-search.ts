@@ -0,0 +1,492 @@
+import { LitElement, html, css, nothing } from "lit";
+import { property, state } from "lit/decorators.js";
+import { safeCustomElement } from "../safe-element";
+import { sharedStyles } from "../styles";
+import { listDevices, getFormSchema } from "../api";
+import { localize } from "../localize";
+import { findChannelsByType } from "../device-utils";
+import { findParameter, formatValue } from "../paramset-diff";
+import { SEARCH_OPERATORS, searchParameter } from "../param-search";
+import type { SearchOperator, SearchQuery, SearchResult } from "../param-search";
+import type { HomeAssistant, DeviceInfo, FormSchema, FormParameter } from "../types";
+
+interface Progress {
+  done: number;
+  total: number;
+}
+
+@safeCustomElement("hm-param-search")
+export class HmParamSearch extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+  @property() public entryId = "";
+  /** Query persisted in the URL: type, param, op and value. */
+  @property({ attribute: false }) public filters: Record<string, string> = {};
+
+  @state() private _devices: DeviceInfo[] = [];
+  @state() private _schema: FormSchema | null = null;
+  @state() private _loading = true;
+  @state() private _error = "";
+  @state() private _progress: Progress | null = null;
+  @state() private _result: SearchResult | null = null;
+
+  updated(changedProps: Map<string, unknown>): void {
+    if (changedProps.has("entryId") && this.entryId) {
+      this._fetchDevices();
+    }
+  }
+
+  private async _fetchDevices(): Promise<void> {
+    this._loading = true;
+    this._error = "";
+    this._result = null;
+    try {
+      this._devices = await listDevices(this.hass, this.entryId);
+      if (this.filters.type) await this._fetchSchema(this.filters.type);
+    } catch (err) {
+      this._error = String(err);
+    } finally {
+      this._loading = false;
+    }
+    // Re-run a complete query restored from the URL, e.g. when returning from a channel
+    if (this._query && this._param) this._handleSearch();
+  }
+
+  private async _fetchSchema(channelType: string): Promise<void> {
+    this._schema = null;
+    const first = findChannelsByType(this._devices, channelType)[0];
+    if (!first) return;
+    this._schema = await getFormSchema(
+      this.hass,
+      this.entryId,
+      first.device.interface_id,
+      first.channel.address,
+      channelType
+    );
+  }
+
+  private _l(key: string, params?: Record<string, string | number>): string {
+    return localize(this.hass, key, params);
+  }
+
+  /** Channel types with a MASTER paramset, sorted by name. */
+  private get _channelTypes(): string[] {
+    const types = new Set<string>();
+    for (const device of this._devices) {
+      for (const channel of device.channels) {
+        if (channel.paramset_keys.includes("MASTER")) types.add(channel.channel_type);
+      }
+    }
+    return [...types].sort();
+  }
+
+  private get _parameters(): FormParameter[] {
+    if (!this._schema) return [];
+    return this._schema.sections
+      .flatMap((section) => section.parameters)
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  private get _param(): FormParameter | undefined {
+    return findParameter(this._schema, this.filters.param ?? "");
+  }
+
+  private get _operator(): SearchOperator {
+    const op = this.filters.op as SearchOperator;
+    return SEARCH_OPERATORS.includes(op) ? op : "eq";
+  }
+
+  private get _query(): SearchQuery | null {
+    const { type, param, value } = this.filters;
+    if (!type || !param) return null;
+    return { channelType: type, parameter: param, operator: this._operator, value: value ?? "" };
+  }
+
+  private _emitFilters(filters: Record<string, string>): void {
+    this._result = null;
+    this.dispatchEvent(
+      new CustomEvent("filters-changed", {
+        detail: { filters },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private _setFilter(key: string, value: string): void {
+    const next = { ...this.filters };
+    if (value) {
+      next[key] = value;
+    } else {
+      delete next[key];
+    }
+    this._emitFilters(next);
+  }
+
+  private async _handleTypeChanged(channelType: string): Promise<void> {
+    this._emitFilters(channelType ? { type: channelType } : {});
+    if (!channelType) {
+      this._schema = null;
+      return;
+    }
+    try {
+      await this._fetchSchema(channelType);
+    } catch (err) {
+      this._error = String(err);
+    }
+  }
+
+  private _handleParamChanged(parameter: string): void {
+    const next: Record<string, string> = { type: this.filters.type };
+    if (parameter) next.param = parameter;
+    if (this.filters.op) next.op = this.filters.op;
+    this._emitFilters(next);
+  }
+
+  private async _handleSearch(): Promise<void> {
+    const query = this._query;
+    if (!query || this._progress) return;
+    this._error = "";
+    this._result = null;
+    this._progress = { done: 0, total: 1 };
+    try {
+      this._result = await searchParameter(
+        this.hass,
+        this.entryId,
+        this._devices,
+        query,
+        this._param,
+        (done, total) => (this._progress = { done, total })
+      );
+    } catch (err) {
+      this._error = String(err);
+    } finally {
+      this._progress = null;
+    }
+  }
+
+  private _handleBack(): void {
+    this.dispatchEvent(new CustomEvent("back", { bubbles: true, composed: true }));
+  }
+
+  private _handleOpenChannel(device: DeviceInfo, channelAddress: string): void {
+    this.dispatchEvent(
+      new CustomEvent("channel-selected", {
+        detail: {
+          device: device.address,
+          channel: channelAddress,
+          interfaceId: device.interface_id,
+          channelType: this.filters.type,
+          paramsetKey: "MASTER",
+          deviceName: device.name,
+        },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  render() {
+    return html`
+      <button class="back-button" @click=${this._handleBack}>
+        \u25C2 ${this._l("common.back")}
+      </button>
+
+      <div class="search-header">
+        <h2>${this._l("param_search.title")}</h2>
+        <div class="device-info">${this._l("param_search.subtitle")}</div>
+      </div>
+
+      ${this._loading
+        ? html`<div class="loading">${this._l("common.loading")}</div>`
+        : html`
+            ${this._renderQuery()}
+            ${this._error ? html`<div class="error">${this._error}</div>` : nothing}
+            ${this._progress
+              ? html`
+                  <div class="progress">
+                    <progress
+                      max=${this._progress.total}
+                      .value=${this._progress.done}
+                    ></progress>
+                    <span>
+                      ${this._l("param_search.scanning", {
+                        done: this._progress.done,
+                        total: this._progress.total,
+                      })}
+                    </span>
+                  </div>
+                `
+              : nothing}
+            ${this._result ? this._renderResult(this._result) : nothing}
+          `}
+    `;
+  }
+
+  private _renderQuery() {
+    const { type, param } = this.filters;
+    const parameter = this._param;
+
+    return html`
+      <div class="query-bar">
+        <select
+          @change=${(e: Event) => this._handleTypeChanged((e.target as HTMLSelectElement).value)}
+        >
+          <option value="" ?selected=${!type}>${this._l("param_search.select_type")}</option>
+          ${this._channelTypes.map(
+            (t) => html`<option value=${t} ?selected=${type === t}>${t}</option>`
+          )}
+        </select>
+        <select
+          ?disabled=${!this._schema}
+          @change=${(e: Event) => this._handleParamChanged((e.target as HTMLSelectElement).value)}
+        >
+          <option value="" ?selected=${!param}>${this._l("param_search.select_parameter")}</option>
+          ${this._parameters.map(
+            (p) => html`
+              <option value=${p.id} ?selected=${param === p.id}>
+                ${p.id}${p.label && p.label !== p.id ? ` (${p.label})` : ""}
+              </option>
+            `
+          )}
+        </select>
+        <select
+          ?disabled=${!parameter}
+          @change=${(e: Event) => this._setFilter("op", (e.target as HTMLSelectElement).value)}
+        >
+          ${SEARCH_OPERATORS.map(
+            (op) => html`
+              <option value=${op} ?selected=${this._operator === op}>
+                ${this._l(`param_search.op_${op}`)}
+              </option>
+            `
+          )}
+        </select>
+        ${this._renderValueInput(parameter)}
+        <button
+          class="btn btn-primary"
+          ?disabled=${!this._query || !parameter || this._progress !== null}
+          @click=${this._handleSearch}
+        >
+          ${this._l("param_search.search")}
+        </button>
+      </div>
+    `;
+  }
+
+  private _renderValueInput(parameter: FormParameter | undefined) {
+    const value = this.filters.value ?? "";
+    const onChange = (e: Event) =>
+      this._setFilter("value", (e.target as HTMLInputElement | HTMLSelectElement).value);
+
+    if (parameter?.options) {
+      return html`
+        <select @change=${onChange}>
+          <option value="" ?selected=${!value}></option>
+          ${parameter.options.map(
+            (option, index) => html`
+              <option value=${index} ?selected=${value === String(index)}>${option}</option>
+            `
+          )}
+        </select>
+      `;
+    }
+    if (parameter?.widget === "toggle") {
+      return html`
+        <select @change=${onChange}>
+          <option value="false" ?selected=${value !== "true"}>false</option>
+          <option value="true" ?selected=${value === "true"}>true</option>
+        </select>
+      `;
+    }
+    return html`
+      <input
+        type="text"
+        .value=${value}
+        ?disabled=${!parameter}
+        placeholder=${parameter?.unit ?? this._l("param_search.value")}
+        @change=${onChange}
+      />
+    `;
+  }
+
+  private _renderResult(result: SearchResult) {
+    const parameter = this._param;
+
+    return html`
+      <div class="result-summary">
+        ${this._l("param_search.result_summary", {
+          matches: result.matches.length,
+          scanned: result.scanned,
+        })}
+        ${result.failed.length > 0
+          ? html`
+              <span class="result-failed" title=${result.failed.join(", ")}>
+                ${this._l("param_search.result_failed", { count: result.failed.length })}
+              </span>
+            `
+          : nothing}
+      </div>
+      ${result.matches.length === 0
+        ? html`<div class="empty-state">${this._l("param_search.no_matches")}</div>`
+        : html`
+            <div class="table-wrapper">
+              <table class="result-table">
+                <thead>
+                  <tr>
+                    <th>${this._l("device_list.column_name")}</th>
+                    <th>${this._l("device_list.column_model")}</th>
+                    <th>${this._l("param_search.column_channel")}</th>
+                    <th>${this._l("param_search.column_value")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  ${result.matches.map(
+                    (match) => html`
+                      <tr @click=${() => this._handleOpenChannel(match.device, match.channel.address)}>
+                        <td>${match.device.name}</td>
+                        <td>${match.device.model}</td>
+                        <td class="mono">${match.channel.address}</td>
+                        <td>
+                          ${formatValue(parameter, match.value)}${parameter?.unit
+                            ? ` ${parameter.unit}`
+                            : ""}
+                        </td>
+                      </tr>
+                    `
+                  )}
+                </tbody>
+              </table>
+            </div>
+          `}
+    `;
+  }
+
+  static styles = [
+    sharedStyles,
+    css`
+      .search-header {
+        margin-bottom: 16px;
+      }
+
+      .search-header h2 {
+        margin: 8px 0 4px;
+        font-size: 20px;
+        font-weight: 400;
+      }
+
+      .query-bar {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 8px;
+        margin-bottom: 16px;
+      }
+
+      .query-bar select,
+      .query-bar input {
+        padding: 6px 8px;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 4px;
+        font-size: 13px;
+        font-family: inherit;
+        background: var(--card-background-color, #fff);
+        color: var(--primary-text-color);
+      }
+
+      .query-bar input {
+        min-width: 120px;
+      }
+
+      .progress {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        margin: 16px 0;
+        font-size: 13px;
+        color: var(--secondary-text-color);
+      }
+
+      .progress progress {
+        flex: 1;
+      }
+
+      .result-summary {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 12px;
+        font-size: 14px;
+        margin-bottom: 8px;
+      }
+
+      .result-failed {
+        color: var(--error-color, #db4437);
+      }
+
+      .table-wrapper {
+        overflow-x: auto;
+      }
+
+      .result-table {
+        width: 100%;
+        border-collapse: collapse;
+        font-size: 13px;
+      }
+
+      .result-table th {
+        text-align: left;
+        font-weight: 500;
+        color: var(--secondary-text-color);
+        padding: 8px;
+        border-bottom: 1px solid var(--divider-color, #e0e0e0);
+      }
+
+      .result-table td {
+        padding: 8px;
+        border-bottom: 1px solid var(--divider-color, #e0e0e0);
+      }
+
+      .result-table tbody tr {
+        cursor: pointer;
+      }
+
+      .result-table tbody tr:hover {
+        background-color: var(--secondary-background-color, #f5f5f5);
+      }
+
+      .mono {
+        font-family: monospace;
+      }
+
+      .btn {
+        padding: 6px 20px;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 14px;
+        font-family: inherit;
+        border: 1px solid transparent;
+      }
+
+      .btn:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      .btn-primary {
+        background: var(--primary-color, #03a9f4);
+        color: #fff;
+        border-color: var(--primary-color, #03a9f4);
+      }
+
+      .btn-primary:hover:not(:disabled) {
+        opacity: 0.9;
+      }
+
+      @media (max-width: 600px) {
+        .query-bar select,
+        .query-bar input,
+        .query-bar .btn {
+          width: 100%;
+        }
+      }
+    `,
+  ];
+}
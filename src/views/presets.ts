@@ -0,0 +1,402 @@
+import { LitElement, html, css, nothing } from "lit";
+import { property, state } from "lit/decorators.js";
+import { safeCustomElement } from "../safe-element";
+import { sharedStyles } from "../styles";
+import { localize } from "../localize";
+import { showConfirmationDialog, showToast } from "../ha-helpers";
+import { downloadFile, pickTextFile } from "../file-helpers";
+import { formatValue } from "../paramset-diff";
+import {
+  deletePreset,
+  exportPresets,
+  importPresets,
+  loadPresets,
+  parsePresetFile,
+  presetFilename,
+  renamePreset,
+} from "../presets";
+import type { ConfigPreset } from "../presets";
+import type { HomeAssistant } from "../types";
+
+@safeCustomElement("hm-presets")
+export class HmPresets extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+
+  @state() private _presets: ConfigPreset[] = loadPresets();
+  @state() private _expanded: Set<string> = new Set();
+  @state() private _renamingId = "";
+  @state() private _renameValue = "";
+
+  private _l(key: string, params?: Record<string, string | number>): string {
+    return localize(this.hass, key, params);
+  }
+
+  private _reload(): void {
+    this._presets = loadPresets();
+  }
+
+  private _handleBack(): void {
+    this.dispatchEvent(new CustomEvent("back", { bubbles: true, composed: true }));
+  }
+
+  /** Presets grouped by channel type, both sorted by name. */
+  private get _groups(): [string, ConfigPreset[]][] {
+    const groups = new Map<string, ConfigPreset[]>();
+    for (const preset of this._presets) {
+      if (!groups.has(preset.channel_type)) groups.set(preset.channel_type, []);
+      groups.get(preset.channel_type)!.push(preset);
+    }
+    return [...groups.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([type, presets]) => [type, presets.sort((a, b) => a.name.localeCompare(b.name))]);
+  }
+
+  private _toggleExpanded(id: string): void {
+    const next = new Set(this._expanded);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    this._expanded = next;
+  }
+
+  private _startRename(preset: ConfigPreset): void {
+    this._renamingId = preset.id;
+    this._renameValue = preset.name;
+  }
+
+  private _handleRename(): void {
+    const name = this._renameValue.trim();
+    if (name) {
+      renamePreset(this._renamingId, name);
+      this._reload();
+    }
+    this._renamingId = "";
+  }
+
+  private async _handleDelete(preset: ConfigPreset): Promise<void> {
+    const confirmed = await showConfirmationDialog(this, {
+      title: this._l("presets.delete_confirm_title"),
+      text: this._l("presets.delete_confirm_text", { name: preset.name }),
+      confirmText: this._l("presets.delete"),
+      dismissText: this._l("common.cancel"),
+      destructive: true,
+    });
+    if (!confirmed) return;
+    deletePreset(preset.id);
+    this._reload();
+  }
+
+  private _handleExport(presets: ConfigPreset[]): void {
+    downloadFile(presetFilename(), exportPresets(presets));
+  }
+
+  private async _handleImport(): Promise<void> {
+    try {
+      const text = await pickTextFile(".json");
+      if (text === null) return;
+      const count = importPresets(parsePresetFile(text));
+      this._reload();
+      showToast(this, { message: this._l("presets.import_success", { count }) });
+    } catch (err) {
+      showToast(this, { message: this._l("presets.invalid_file", { error: String(err) }) });
+    }
+  }
+
+  render() {
+    const groups = this._groups;
+
+    return html`
+      <button class="back-button" @click=${this._handleBack}>
+        \u25C2 ${this._l("common.back")}
+      </button>
+
+      <div class="presets-header">
+        <div>
+          <h2>${this._l("presets.title")}</h2>
+          <div class="device-info">${this._l("presets.description")}</div>
+        </div>
+        <div class="header-actions">
+          <button class="btn btn-secondary" @click=${this._handleImport}>
+            ${this._l("presets.import")}
+          </button>
+          <button
+            class="btn btn-secondary"
+            ?disabled=${this._presets.length === 0}
+            @click=${() => this._handleExport(this._presets)}
+          >
+            ${this._l("presets.export_all")}
+          </button>
+        </div>
+      </div>
+
+      ${groups.length === 0
+        ? html`<div class="empty-state">${this._l("presets.empty")}</div>`
+        : groups.map(
+            ([channelType, presets]) => html`
+              <div class="preset-group">
+                <div class="preset-group-header">
+                  ${channelType}
+                  <span class="preset-count">${presets.length}</span>
+                </div>
+                ${presets.map((preset) => this._renderPreset(preset))}
+              </div>
+            `
+          )}
+    `;
+  }
+
+  private _renderPreset(preset: ConfigPreset) {
+    const isExpanded = this._expanded.has(preset.id);
+    const values = Object.entries(preset.values).sort(([a], [b]) => a.localeCompare(b));
+
+    return html`
+      <div class="preset-item">
+        <div class="preset-row">
+          <span class="expand-icon" @click=${() => this._toggleExpanded(preset.id)}>
+            ${isExpanded ? "\u25BE" : "\u25B8"}
+          </span>
+          ${this._renamingId === preset.id
+            ? html`
+                <input
+                  class="rename-input"
+                  type="text"
+                  .value=${this._renameValue}
+                  @input=${(e: InputEvent) =>
+                    (this._renameValue = (e.target as HTMLInputElement).value)}
+                  @keydown=${(e: KeyboardEvent) => {
+                    if (e.key === "Enter") this._handleRename();
+                    if (e.key === "Escape") this._renamingId = "";
+                  }}
+                />
+                <button class="btn btn-primary btn-small" @click=${this._handleRename}>
+                  ${this._l("common.save")}
+                </button>
+                <button
+                  class="btn btn-secondary btn-small"
+                  @click=${() => (this._renamingId = "")}
+                >
+                  ${this._l("common.cancel")}
+                </button>
+              `
+            : html`
+                <div class="preset-info" @click=${() => this._toggleExpanded(preset.id)}>
+                  <div class="preset-name">${preset.name}</div>
+                  <div class="preset-meta">
+                    ${preset.model
+                      ? this._l("presets.model_scope", { model: preset.model })
+                      : this._l("presets.all_models")}
+                    \u00B7 ${this._l("presets.value_count", { count: values.length })}
+                    \u00B7
+                    ${new Date(preset.created_at).toLocaleString(
+                      this.hass.config.language || "en"
+                    )}
+                  </div>
+                </div>
+                <button
+                  class="btn btn-secondary btn-small"
+                  @click=${() => this._startRename(preset)}
+                >
+                  ${this._l("presets.rename")}
+                </button>
+                <button
+                  class="btn btn-secondary btn-small"
+                  @click=${() => this._handleExport([preset])}
+                >
+                  ${this._l("presets.export")}
+                </button>
+                <button
+                  class="btn btn-secondary btn-small btn-danger"
+                  @click=${() => this._handleDelete(preset)}
+                >
+                  ${this._l("presets.delete")}
+                </button>
+              `}
+        </div>
+        ${isExpanded
+          ? html`
+              <div class="preset-values">
+                ${values.map(
+                  ([parameter, value]) => html`
+                    <div class="value-row">
+                      <span>${parameter}</span>
+                      <span class="value">${formatValue(undefined, value)}</span>
+                    </div>
+                  `
+                )}
+              </div>
+            `
+          : nothing}
+      </div>
+    `;
+  }
+
+  static styles = [
+    sharedStyles,
+    css`
+      .presets-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: flex-start;
+        gap: 16px;
+        margin-bottom: 16px;
+      }
+
+      .presets-header h2 {
+        margin: 8px 0 4px;
+        font-size: 20px;
+        font-weight: 400;
+      }
+
+      .header-actions {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 8px;
+      }
+
+      .preset-group {
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 8px;
+        margin-bottom: 16px;
+        overflow: hidden;
+      }
+
+      .preset-group-header {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        font-size: 14px;
+        font-weight: 500;
+        font-family: monospace;
+        padding: 12px 16px;
+        background: var(--secondary-background-color, #fafafa);
+        border-bottom: 1px solid var(--divider-color, #e0e0e0);
+      }
+
+      .preset-count {
+        font-size: 11px;
+        font-family: inherit;
+        padding: 1px 8px;
+        border-radius: 10px;
+        background: var(--divider-color, #e0e0e0);
+        color: var(--secondary-text-color);
+      }
+
+      .preset-item + .preset-item {
+        border-top: 1px solid var(--divider-color, #e0e0e0);
+      }
+
+      .preset-row {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 10px 16px;
+      }
+
+      .preset-info {
+        flex: 1;
+        min-width: 0;
+        cursor: pointer;
+      }
+
+      .preset-name {
+        font-size: 14px;
+        font-weight: 500;
+      }
+
+      .preset-meta {
+        font-size: 12px;
+        color: var(--secondary-text-color);
+        margin-top: 2px;
+      }
+
+      .rename-input {
+        flex: 1;
+        min-width: 0;
+        padding: 6px 8px;
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 4px;
+        font-size: 14px;
+        font-family: inherit;
+        background: var(--card-background-color, #fff);
+        color: var(--primary-text-color);
+      }
+
+      .expand-icon {
+        font-size: 16px;
+        color: var(--secondary-text-color);
+        cursor: pointer;
+      }
+
+      .preset-values {
+        padding: 4px 16px 12px 40px;
+      }
+
+      .value-row {
+        display: flex;
+        justify-content: space-between;
+        padding: 2px 0;
+        font-size: 13px;
+      }
+
+      .value-row .value {
+        font-family: monospace;
+        color: var(--secondary-text-color);
+      }
+
+      .btn {
+        padding: 8px 20px;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 14px;
+        font-family: inherit;
+        border: 1px solid transparent;
+      }
+
+      .btn:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      .btn-small {
+        padding: 4px 12px;
+        font-size: 13px;
+      }
+
+      .btn-primary {
+        background: var(--primary-color, #03a9f4);
+        color: #fff;
+        border-color: var(--primary-color, #03a9f4);
+      }
+
+      .btn-primary:hover:not(:disabled) {
+        opacity: 0.9;
+      }
+
+      .btn-secondary {
+        background: transparent;
+        color: var(--primary-text-color);
+        border-color: var(--divider-color, #e0e0e0);
+      }
+
+      .btn-secondary:hover:not(:disabled) {
+        background: var(--secondary-background-color, #f5f5f5);
+      }
+
+      .btn-danger {
+        color: var(--error-color, #db4437);
+      }
+
+      @media (max-width: 600px) {
+        .presets-header {
+          flex-direction: column;
+        }
+
+        .preset-row {
+          flex-wrap: wrap;
+        }
+      }
+    `,
+  ];
+}
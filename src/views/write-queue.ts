@@ -0,0 +1,506 @@
+import { LitElement, html, css, nothing } from "lit";
+import { property, state } from "lit/decorators.js";
+import { safeCustomElement } from "../safe-element";
+import { sharedStyles } from "../styles";
+import { listDevices, putParamset } from "../api";
+import { localize } from "../localize";
+import { showConfirmationDialog, showToast } from "../ha-helpers";
+import { formatValue } from "../paramset-diff";
+import {
+  WRITE_QUEUE_POLL_INTERVAL,
+  clearFinished,
+  isActive,
+  loadQueue,
+  refreshQueue,
+  removeQueuedWrite,
+  updateQueuedWrite,
+} from "../write-queue";
+import { subscribeDeviceEvents, applyDeviceEventToList } from "../subscriptions";
+import type { QueuedWrite } from "../write-queue";
+import type { HomeAssistant, DeviceInfo } from "../types";
+
+@safeCustomElement("hm-write-queue")
+export class HmWriteQueue extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+  @property() public entryId = "";
+
+  @state() private _writes: QueuedWrite[] = [];
+  @state() private _loading = true;
+  @state() private _error = "";
+  @state() private _expanded: Set<string> = new Set();
+  @state() private _busy: Set<string> = new Set();
+
+  private _devices: DeviceInfo[] = [];
+  private _pollTimer?: number;
+  private _unsubscribeEvents?: () => void;
+
+  connectedCallback(): void {
+    super.connectedCallback();
+    if (this.entryId) this._startPolling();
+    if (this.hasUpdated && this.entryId) this._subscribeEvents();
+  }
+
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this._stopPolling();
+    this._unsubscribeEvents?.();
+    this._unsubscribeEvents = undefined;
+  }
+
+  updated(changedProps: Map<string, unknown>): void {
+    if (changedProps.has("entryId") && this.entryId) {
+      this._writes = loadQueue(this.entryId);
+      this._loading = true;
+      this._refresh();
+      this._startPolling();
+      this._subscribeEvents();
+    }
+  }
+
+  /** Update the statuses as soon as a device reports a changed config-pending flag. */
+  private _subscribeEvents(): void {
+    this._unsubscribeEvents?.();
+    this._unsubscribeEvents = subscribeDeviceEvents(this.hass, this.entryId, (event) => {
+      if (event.maintenance.config_pending === undefined) return;
+      const devices = applyDeviceEventToList(this._devices, event);
+      if (devices === this._devices) return;
+      this._devices = devices;
+      this._writes = refreshQueue(this.entryId, this._devices, Date.now());
+    });
+  }
+
+  private _startPolling(): void {
+    if (this._pollTimer !== undefined) return;
+    this._pollTimer = window.setInterval(() => this._refresh(), WRITE_QUEUE_POLL_INTERVAL);
+  }
+
+  private _stopPolling(): void {
+    if (this._pollTimer === undefined) return;
+    window.clearInterval(this._pollTimer);
+    this._pollTimer = undefined;
+  }
+
+  private async _refresh(): Promise<void> {
+    this._error = "";
+    try {
+      this._devices = await listDevices(this.hass, this.entryId);
+      this._writes = refreshQueue(this.entryId, this._devices, Date.now());
+    } catch (err) {
+      this._error = String(err);
+    } finally {
+      this._loading = false;
+    }
+  }
+
+  private _l(key: string, params?: Record<string, string | number>): string {
+    return localize(this.hass, key, params);
+  }
+
+  private _handleBack(): void {
+    this.dispatchEvent(new CustomEvent("back", { bubbles: true, composed: true }));
+  }
+
+  private _toggleExpanded(id: string): void {
+    const next = new Set(this._expanded);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    this._expanded = next;
+  }
+
+  private _setBusy(id: string, busy: boolean): void {
+    const next = new Set(this._busy);
+    if (busy) {
+      next.add(id);
+    } else {
+      next.delete(id);
+    }
+    this._busy = next;
+  }
+
+  private async _handleRetry(write: QueuedWrite): Promise<void> {
+    this._setBusy(write.id, true);
+    try {
+      const result = await putParamset(
+        this.hass,
+        this.entryId,
+        write.interface_id,
+        write.channel_address,
+        write.values,
+        "MASTER",
+        true,
+        "manual"
+      );
+      updateQueuedWrite(
+        write.id,
+        result.success
+          ? { status: "queued", failure: undefined, written_at: Date.now() }
+          : { status: "failed", failure: "write_failed" }
+      );
+      showToast(this, {
+        message: this._l(result.success ? "write_queue.retry_success" : "write_queue.retry_failed"),
+      });
+    } catch {
+      updateQueuedWrite(write.id, { status: "failed", failure: "write_failed" });
+      showToast(this, { message: this._l("write_queue.retry_failed") });
+    } finally {
+      this._setBusy(write.id, false);
+      this._writes = loadQueue(this.entryId);
+    }
+  }
+
+  /** Write the previous values back so the device ends up unchanged, then stop tracking. */
+  private async _handleCancel(write: QueuedWrite): Promise<void> {
+    const confirmed = await showConfirmationDialog(this, {
+      title: this._l("write_queue.cancel_confirm_title"),
+      text: this._l("write_queue.cancel_confirm_text", {
+        device: write.device_name || write.device_address,
+      }),
+      confirmText: this._l("write_queue.cancel"),
+      dismissText: this._l("common.back"),
+      destructive: true,
+    });
+    if (!confirmed) return;
+
+    this._setBusy(write.id, true);
+    try {
+      const result = await putParamset(
+        this.hass,
+        this.entryId,
+        write.interface_id,
+        write.channel_address,
+        write.previous,
+        "MASTER",
+        true,
+        "revert"
+      );
+      if (result.success) {
+        removeQueuedWrite(write.id);
+        showToast(this, { message: this._l("write_queue.cancel_success") });
+      } else {
+        showToast(this, { message: this._l("write_queue.cancel_failed") });
+      }
+    } catch {
+      showToast(this, { message: this._l("write_queue.cancel_failed") });
+    } finally {
+      this._setBusy(write.id, false);
+      this._writes = loadQueue(this.entryId);
+    }
+  }
+
+  private _handleRemove(write: QueuedWrite): void {
+    removeQueuedWrite(write.id);
+    this._writes = loadQueue(this.entryId);
+  }
+
+  private _handleClearFinished(): void {
+    clearFinished(this.entryId);
+    this._writes = loadQueue(this.entryId);
+  }
+
+  render() {
+    if (this._loading) {
+      return html`<div class="loading">${this._l("common.loading")}</div>`;
+    }
+
+    const active = this._writes.filter(isActive).length;
+
+    return html`
+      <button class="back-button" @click=${this._handleBack}>
+        \u25C2 ${this._l("common.back")}
+      </button>
+
+      <div class="queue-header">
+        <div>
+          <h2>${this._l("write_queue.title")}</h2>
+          <div class="device-info">
+            ${this._l("write_queue.subtitle", { count: active })}
+          </div>
+        </div>
+        <div class="header-actions">
+          <button class="btn btn-secondary" @click=${this._refresh}>
+            ${this._l("write_queue.refresh")}
+          </button>
+          <button
+            class="btn btn-secondary"
+            ?disabled=${!this._writes.some((w) => w.status === "applied")}
+            @click=${this._handleClearFinished}
+          >
+            ${this._l("write_queue.clear_finished")}
+          </button>
+        </div>
+      </div>
+
+      ${this._error ? html`<div class="error">${this._error}</div>` : nothing}
+      ${this._writes.length === 0
+        ? html`<div class="empty-state">${this._l("write_queue.empty")}</div>`
+        : html`
+            <div class="queue-list">${this._writes.map((write) => this._renderWrite(write))}</div>
+          `}
+    `;
+  }
+
+  private _renderWrite(write: QueuedWrite) {
+    const isExpanded = this._expanded.has(write.id);
+    const busy = this._busy.has(write.id);
+    const parameters = Object.keys(write.values).sort();
+    // Writes to a device that is gone can neither be retried nor cancelled
+    const writable = write.failure !== "device_missing";
+
+    return html`
+      <div class="queue-item">
+        <div class="queue-row">
+          <span class="expand-icon" @click=${() => this._toggleExpanded(write.id)}>
+            ${isExpanded ? "\u25BE" : "\u25B8"}
+          </span>
+          <div class="queue-info" @click=${() => this._toggleExpanded(write.id)}>
+            <div class="queue-name">${write.device_name || write.device_address}</div>
+            <div class="queue-meta">
+              ${write.channel_address} \u00B7
+              ${this._l("write_queue.parameter_count", { count: parameters.length })} \u00B7
+              ${new Date(write.written_at).toLocaleString(this.hass.config.language || "en")}
+            </div>
+            ${write.failure
+              ? html`
+                  <div class="validation-error">
+                    ${this._l(`write_queue.failure_${write.failure}`)}
+                  </div>
+                `
+              : nothing}
+          </div>
+          <span class="status-badge ${write.status}">
+            ${this._l(`write_queue.status_${write.status}`)}
+          </span>
+          ${write.status === "failed" && writable
+            ? html`
+                <button
+                  class="btn btn-secondary btn-small"
+                  ?disabled=${busy}
+                  @click=${() => this._handleRetry(write)}
+                >
+                  ${this._l("write_queue.retry")}
+                </button>
+              `
+            : nothing}
+          ${write.status !== "applied" && writable
+            ? html`
+                <button
+                  class="btn btn-secondary btn-small btn-danger"
+                  ?disabled=${busy}
+                  @click=${() => this._handleCancel(write)}
+                >
+                  ${this._l("write_queue.cancel")}
+                </button>
+              `
+            : nothing}
+          ${!isActive(write)
+            ? html`
+                <button
+                  class="btn btn-secondary btn-small"
+                  ?disabled=${busy}
+                  @click=${() => this._handleRemove(write)}
+                >
+                  ${this._l("write_queue.remove")}
+                </button>
+              `
+            : nothing}
+        </div>
+        ${isExpanded
+          ? html`
+              <div class="queue-values">
+                ${parameters.map(
+                  (parameter) => html`
+                    <div class="change-row">
+                      <span class="change-param">${parameter}</span>
+                      <span class="change-values">
+                        <span class="change-old">
+                          ${formatValue(undefined, write.previous[parameter])}
+                        </span>
+                        \u2192
+                        <span class="change-new">
+                          ${formatValue(undefined, write.values[parameter])}
+                        </span>
+                      </span>
+                    </div>
+                  `
+                )}
+              </div>
+            `
+          : nothing}
+      </div>
+    `;
+  }
+
+  static styles = [
+    sharedStyles,
+    css`
+      .queue-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: flex-start;
+        gap: 16px;
+        margin-bottom: 16px;
+      }
+
+      .queue-header h2 {
+        margin: 8px 0 4px;
+        font-size: 20px;
+        font-weight: 400;
+      }
+
+      .header-actions {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 8px;
+      }
+
+      .queue-list {
+        border: 1px solid var(--divider-color, #e0e0e0);
+        border-radius: 8px;
+        overflow: hidden;
+      }
+
+      .queue-item + .queue-item {
+        border-top: 1px solid var(--divider-color, #e0e0e0);
+      }
+
+      .queue-row {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 10px 16px;
+      }
+
+      .queue-info {
+        flex: 1;
+        min-width: 0;
+        cursor: pointer;
+      }
+
+      .queue-name {
+        font-size: 14px;
+        font-weight: 500;
+      }
+
+      .queue-meta {
+        font-size: 12px;
+        color: var(--secondary-text-color);
+        margin-top: 2px;
+      }
+
+      .expand-icon {
+        font-size: 16px;
+        color: var(--secondary-text-color);
+        cursor: pointer;
+      }
+
+      .status-badge {
+        font-size: 11px;
+        padding: 2px 8px;
+        border-radius: 12px;
+        color: #fff;
+        text-transform: uppercase;
+        white-space: nowrap;
+      }
+
+      .status-badge.queued {
+        background: var(--secondary-text-color, #727272);
+      }
+
+      .status-badge.transferring {
+        background: var(--warning-color, #ff9800);
+      }
+
+      .status-badge.applied {
+        background: var(--success-color, #43a047);
+      }
+
+      .status-badge.failed {
+        background: var(--error-color, #db4437);
+      }
+
+      .queue-values {
+        padding: 4px 16px 12px 40px;
+      }
+
+      .change-row {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        padding: 2px 0;
+        font-size: 13px;
+      }
+
+      .change-param {
+        margin-right: 12px;
+      }
+
+      .change-values {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+      }
+
+      .change-old {
+        color: var(--error-color, #db4437);
+        text-decoration: line-through;
+      }
+
+      .change-new {
+        color: var(--primary-color, #03a9f4);
+        font-weight: 500;
+      }
+
+      .btn {
+        padding: 8px 20px;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 14px;
+        font-family: inherit;
+        border: 1px solid transparent;
+      }
+
+      .btn:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      .btn-small {
+        padding: 4px 12px;
+        font-size: 13px;
+      }
+
+      .btn-secondary {
+        background: transparent;
+        color: var(--primary-text-color);
+        border-color: var(--divider-color, #e0e0e0);
+      }
+
+      .btn-secondary:hover:not(:disabled) {
+        background: var(--secondary-background-color, #f5f5f5);
+      }
+
+      .btn-danger {
+        color: var(--error-color, #db4437);
+      }
+
+      @media (max-width: 600px) {
+        .queue-header {
+          flex-direction: column;
+        }
+
+        .queue-row {
+          flex-wrap: wrap;
+        }
+
+        .change-row {
+          flex-direction: column;
+          align-items: flex-start;
+          gap: 2px;
+        }
+      }
+    `,
+  ];
+}
@@ -0,0 +1,148 @@
+/**
+ * Write queue for battery devices: MASTER changes saved for devices that only
+ * accept them at their next wake-up, tracked in the browser's local storage
+ * until the device no longer reports `config_pending`.
+ */
+
+import type { DeviceInfo } from "./types";
+
+/** Interval for re-reading the device states while the queue view is open. */
+export const WRITE_QUEUE_POLL_INTERVAL = 30_000;
+
+/** Time after a save in which a device may not report `config_pending` yet. */
+export const QUEUE_GRACE_PERIOD = 2 * 60_000;
+
+/** Writes that are not transferred within this time are marked as failed. */
+export const QUEUE_TIMEOUT = 7 * 24 * 60 * 60_000;
+
+const STORAGE_KEY = "homematic-config-panel.write-queue";
+
+export type QueueStatus = "queued" | "transferring" | "applied" | "failed";
+
+export type QueueFailure = "device_missing" | "timeout" | "write_failed";
+
+export interface QueuedWrite {
+  id: string;
+  entry_id: string;
+  interface_id: string;
+  device_address: string;
+  device_name: string;
+  channel_address: string;
+  values: Record<string, unknown>;
+  /** Values before the write, used to cancel it. */
+  previous: Record<string, unknown>;
+  status: QueueStatus;
+  failure?: QueueFailure;
+  /** Time of the last write, as milliseconds since the epoch. */
+  written_at: number;
+}
+
+/** Devices that report a battery state sleep between transmissions. */
+export function isBatteryDevice(device: DeviceInfo): boolean {
+  return device.maintenance?.low_bat !== undefined;
+}
+
+export function isActive(write: QueuedWrite): boolean {
+  return write.status === "queued" || write.status === "transferring";
+}
+
+function loadAll(): QueuedWrite[] {
+  try {
+    const data = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]") as unknown;
+    return Array.isArray(data) ? (data as QueuedWrite[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeAll(writes: QueuedWrite[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(writes));
+}
+
+/** Queued writes of a config entry, newest first. */
+export function loadQueue(entryId: string): QueuedWrite[] {
+  return loadAll()
+    .filter((w) => w.entry_id === entryId)
+    .sort((a, b) => b.written_at - a.written_at);
+}
+
+/**
+ * Track a write to a battery device. A further write to a channel that is
+ * still pending is merged into its entry, keeping the original previous values.
+ */
+export function enqueueWrite(
+  entryId: string,
+  device: DeviceInfo,
+  channelAddress: string,
+  values: Record<string, unknown>,
+  previous: Record<string, unknown>
+): void {
+  const writes = loadAll();
+  const existing = writes.find(
+    (w) => w.entry_id === entryId && w.channel_address === channelAddress && isActive(w)
+  );
+  if (existing) {
+    existing.values = { ...existing.values, ...values };
+    existing.previous = { ...previous, ...existing.previous };
+    existing.status = "queued";
+    existing.written_at = Date.now();
+  } else {
+    writes.push({
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      entry_id: entryId,
+      interface_id: device.interface_id,
+      device_address: device.address,
+      device_name: device.name,
+      channel_address: channelAddress,
+      values,
+      previous,
+      status: "queued",
+      written_at: Date.now(),
+    });
+  }
+  storeAll(writes);
+}
+
+export function updateQueuedWrite(id: string, patch: Partial<QueuedWrite>): void {
+  storeAll(loadAll().map((w) => (w.id === id ? { ...w, ...patch } : w)));
+}
+
+export function removeQueuedWrite(id: string): void {
+  storeAll(loadAll().filter((w) => w.id !== id));
+}
+
+/** Remove the applied writes of a config entry. */
+export function clearFinished(entryId: string): void {
+  storeAll(loadAll().filter((w) => w.entry_id !== entryId || w.status !== "applied"));
+}
+
+/** Evaluate an active write against the latest state of its device. */
+export function nextStatus(
+  write: QueuedWrite,
+  device: DeviceInfo | undefined,
+  now: number
+): Pick<QueuedWrite, "status" | "failure"> {
+  if (!isActive(write)) return { status: write.status, failure: write.failure };
+  if (!device) return { status: "failed", failure: "device_missing" };
+  if (device.maintenance?.config_pending === true) {
+    if (now - write.written_at > QUEUE_TIMEOUT) return { status: "failed", failure: "timeout" };
+    return { status: "transferring" };
+  }
+  // The CCU reports config_pending with a delay; only a cleared flag after a
+  // transfer was seen, or after the grace period, counts as applied
+  if (write.status === "transferring" || now - write.written_at > QUEUE_GRACE_PERIOD) {
+    return { status: "applied" };
+  }
+  return { status: "queued" };
+}
+
+/** Update the statuses of the active writes of a config entry from the device list. */
+export function refreshQueue(entryId: string, devices: DeviceInfo[], now: number): QueuedWrite[] {
+  const writes = loadAll().map((w) => {
+    if (w.entry_id !== entryId) return w;
+    const device = devices.find((d) => d.address === w.device_address);
+    return { ...w, ...nextStatus(w, device, now) };
+  });
+  storeAll(writes);
+  return loadQueue(entryId);
+}